@@ -0,0 +1,112 @@
+import type { EventGroupAssignment } from './grouping'
+import type { ParsedIcsEvent } from './importIcs'
+
+export type EventAlarm =
+  // Minutes from the event's start or end; negative fires before it. All-day
+  // events count from midnight, so -900 is 9:00 the day before
+  | { kind: 'relative'; minutes: number; related: 'start' | 'end' }
+  | { kind: 'absolute'; atMs: number }
+
+// Alert added to every event; null adds none
+export type AlertDefaults = {
+  timedOffsetMinutes: number | null
+  allDayOffsetMinutes: number | null
+}
+
+export type AlertSettings = {
+  keepSourceAlarms: boolean
+  defaults: AlertDefaults
+  // Per-group overrides of the defaults, keyed like the review groups
+  groups: Record<string, AlertDefaults>
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  keepSourceAlarms: true,
+  defaults: { timedOffsetMinutes: null, allDayOffsetMinutes: null },
+  groups: {}
+}
+
+type SourceAlarm = {
+  type?: string
+  trigger?: unknown
+}
+
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+
+function durationMinutes(value: string): number | null {
+  const match = DURATION_PATTERN.exec(value.trim().toUpperCase())
+  if (!match) return null
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part ?? '0')
+  const total =
+    Number(weeks) * 10080 +
+    Number(days) * 1440 +
+    Number(hours) * 60 +
+    Number(minutes) +
+    Math.round(Number(seconds) / 60)
+  return sign === '-' ? -total : total
+}
+
+function utcDateTime(value: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value.trim())
+  if (!match) return null
+  const [y, mo, d, h, mi, s] = match.slice(1).map(Number)
+  return Date.UTC(y, mo - 1, d, h, mi, s)
+}
+
+function parseTrigger(trigger: unknown): EventAlarm | null {
+  // node-ical keeps plain triggers as strings and parameterised ones as { params, val }
+  const raw =
+    typeof trigger === 'string'
+      ? { params: {} as Record<string, string>, val: trigger }
+      : typeof trigger === 'object' && trigger !== null && 'val' in trigger
+        ? (trigger as { params?: Record<string, string>; val: unknown })
+        : null
+  if (!raw || typeof raw.val !== 'string') return null
+
+  if (raw.params?.VALUE === 'DATE-TIME') {
+    const atMs = utcDateTime(raw.val)
+    return atMs === null ? null : { kind: 'absolute', atMs }
+  }
+
+  const minutes = durationMinutes(raw.val)
+  if (minutes === null) return null
+  return { kind: 'relative', minutes, related: raw.params?.RELATED === 'END' ? 'end' : 'start' }
+}
+
+// VALARMs become plain reminders; email and procedure actions cannot be recreated
+export function parseSourceAlarms(value: unknown): EventAlarm[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((alarm): alarm is SourceAlarm => typeof alarm === 'object' && alarm !== null)
+    .map((alarm) => parseTrigger(alarm.trigger))
+    .filter((alarm): alarm is EventAlarm => alarm !== null)
+}
+
+function sameAlarm(a: EventAlarm, b: EventAlarm): boolean {
+  if (a.kind === 'absolute') return b.kind === 'absolute' && a.atMs === b.atMs
+  return b.kind === 'relative' && a.minutes === b.minutes && a.related === b.related
+}
+
+/**
+ * Settles the alarms each event is written with: the feed's own VALARMs when
+ * they are kept, plus the default alert for its group or the whole import.
+ */
+export function applyAlertSettings(
+  events: ParsedIcsEvent[],
+  settings: AlertSettings,
+  groups: EventGroupAssignment[]
+): ParsedIcsEvent[] {
+  return events.map((event, index) => {
+    const groupKey = groups[index]?.key
+    const defaults = (groupKey !== undefined && settings.groups[groupKey]) || settings.defaults
+    const offset = event.isAllDay ? defaults.allDayOffsetMinutes : defaults.timedOffsetMinutes
+    const alarms = settings.keepSourceAlarms ? [...event.alarms] : []
+
+    if (offset !== null) {
+      const alarm: EventAlarm = { kind: 'relative', minutes: offset, related: 'start' }
+      if (!alarms.some((existing) => sameAlarm(existing, alarm))) alarms.push(alarm)
+    }
+
+    return { ...event, alarms }
+  })
+}
@@ -0,0 +1,118 @@
+import { FeedFetchError, type FeedFetchErrorCode } from './feedFetch'
+import { CaldavError, type CaldavErrorCode } from './targets/caldavClient'
+import type { CalendarContainer } from './targets/calendarTarget'
+
+// Failures the app can explain, each with the details a caller needs to act on it
+export type AppErrorDetail =
+  | { code: 'fetch'; reason: FeedFetchErrorCode; status: number | null }
+  | { code: 'caldav'; reason: CaldavErrorCode; status: number | null }
+  | { code: 'parse'; source: string }
+  | { code: 'file'; name: string; reason: 'notFound' | 'denied' | 'unreadable' }
+  | { code: 'permission'; container: CalendarContainer }
+  | { code: 'toolchain'; tool: string }
+  | { code: 'sourceNotFound'; container: CalendarContainer; available: string[] }
+  | {
+      code: 'partialWrite'
+      created: number
+      updated: number
+      failed: number
+      remaining: number
+      // What stopped the writes, when that is known
+      cause: AppErrorDetail | null
+    }
+
+export type AppErrorCode = AppErrorDetail['code']
+
+const FETCH_FIXES: Record<FeedFetchErrorCode, string> = {
+  invalidUrl: 'Check the link. It should start with http://, https:// or webcal://.',
+  unauthorized: 'Save the username and password or token for this feed under "Feed access".',
+  forbidden:
+    'Check that the feed is shared with you, or update its credentials under "Feed access".',
+  notFound: 'Check the link for typos, or copy a fresh one from the calendar that publishes it.',
+  httpStatus: 'The server had a problem. Try again later.',
+  tooManyRedirects: 'Open the link in a browser and use the address it ends up at.',
+  timeout: 'Check your internet connection and try again. The server may be slow.',
+  tooLarge: 'Ask the publisher for a smaller feed, or export a shorter date range.',
+  dns: 'Check your internet connection and the server name in the link.',
+  network: 'Check your internet connection and try again.',
+  notCalendar: 'Make sure the link points at the .ics feed itself, not a web page about it.'
+}
+
+const CALDAV_FIXES: Record<CaldavErrorCode, string> = {
+  notConfigured: 'Connect a server under "CalDAV account", or pick another account.',
+  invalidUrl: 'Enter the full server address, e.g. https://dav.example.com/.',
+  unauthorized:
+    'Check the username and password under "CalDAV account". Some providers need an app password.',
+  forbidden: 'Check that the account may create calendars and add events on this server.',
+  notFound: 'Check the server address under "CalDAV account"; the calendar may have been removed.',
+  notCalDav:
+    'Use the CalDAV address your provider documents, which often ends in /dav/ or /caldav/.',
+  httpStatus: 'The server had a problem. Try again later.',
+  timeout: 'Check your internet connection and try again. The server may be slow.',
+  network: 'Check your internet connection and the server address.'
+}
+
+function suggestedFix(detail: AppErrorDetail): string {
+  switch (detail.code) {
+    case 'fetch':
+      return FETCH_FIXES[detail.reason]
+    case 'caldav':
+      return CALDAV_FIXES[detail.reason]
+    case 'parse':
+      return `Check that ${detail.source} is an iCalendar (.ics) file. Most calendar apps can export one.`
+    case 'file':
+      if (detail.reason === 'notFound') {
+        return `Check that ${detail.name} has not been moved or renamed, then choose it again.`
+      }
+      if (detail.reason === 'denied') {
+        return `Make ${detail.name} readable for your user, or allow CustomCal under System Settings > Privacy & Security > Files and Folders.`
+      }
+      return `Copy ${detail.name} to a local folder such as Documents and choose it from there.`
+    case 'permission':
+      return detail.container === 'icloud'
+        ? 'Open System Settings > Privacy & Security > Calendars and allow CustomCal full access.'
+        : 'Open System Settings > Privacy & Security > Automation and allow CustomCal to control Calendar.'
+    case 'toolchain':
+      if (!detail.tool.endsWith('swift')) return 'Choose iCloud instead, which does not need it.'
+      return 'Install the Xcode Command Line Tools with "xcode-select --install", or import into On My Mac, which does not need them.'
+    case 'sourceNotFound':
+      if (detail.container === 'caldav') {
+        return 'Connect that account again under "CalDAV account", or pick another account.'
+      }
+      return detail.available.length > 0
+        ? `Pick another account. Calendar has: ${detail.available.join(', ')}.`
+        : 'Add a calendar account in Calendar, or pick another account.'
+    case 'partialWrite': {
+      const retry = 'Run the import again; events already added are skipped.'
+      return detail.cause ? `${suggestedFix(detail.cause)} ${retry}` : retry
+    }
+  }
+}
+
+/**
+ * An error the popup and command line can explain. The code and its details are
+ * machine-readable, and the suggested fix is written for the person using the app.
+ */
+export class AppError extends Error {
+  readonly detail: AppErrorDetail
+  readonly fix: string
+
+  constructor(detail: AppErrorDetail, message: string) {
+    super(message)
+    this.name = 'AppError'
+    this.detail = detail
+    this.fix = suggestedFix(detail)
+  }
+}
+
+// The explainable form of an error, or null for failures the app has no advice for
+export function asAppError(error: unknown): AppError | null {
+  if (error instanceof AppError) return error
+  if (error instanceof FeedFetchError) {
+    return new AppError({ code: 'fetch', reason: error.code, status: error.status }, error.message)
+  }
+  if (error instanceof CaldavError) {
+    return new AppError({ code: 'caldav', reason: error.code, status: error.status }, error.message)
+  }
+  return null
+}
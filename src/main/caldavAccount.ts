@@ -0,0 +1,88 @@
+import { safeStorage } from 'electron'
+import { readJsonStore, writeJsonStore } from './jsonStore'
+import { discoverCalendarHome, type CaldavLogin } from './targets/caldavClient'
+
+export type CaldavAccount = CaldavLogin & {
+  // Where the account's calendars live, found when the account was saved
+  calendarHomeUrl: string
+}
+
+// What the popup is shown about the account; the password never leaves the main process
+export type CaldavAccountSummary = {
+  serverUrl: string
+  username: string
+  calendarHomeUrl: string
+}
+
+const STORE_FILE = 'caldav-account.json'
+
+// Encrypted with the key safeStorage keeps in the OS keychain; undefined until read
+let sealed: string | null | undefined
+
+async function loadSealed(): Promise<string | null> {
+  if (sealed !== undefined) return sealed
+
+  const stored = await readJsonStore<{ account?: unknown }>(STORE_FILE, {})
+  sealed = typeof stored.account === 'string' ? stored.account : null
+  return sealed
+}
+
+function summarize(account: CaldavAccount): CaldavAccountSummary {
+  return {
+    serverUrl: account.serverUrl,
+    username: account.username,
+    calendarHomeUrl: account.calendarHomeUrl
+  }
+}
+
+export async function getCaldavAccount(): Promise<CaldavAccount | null> {
+  const value = await loadSealed()
+  if (!value || !safeStorage.isEncryptionAvailable()) return null
+
+  try {
+    return JSON.parse(safeStorage.decryptString(Buffer.from(value, 'base64'))) as CaldavAccount
+  } catch (error) {
+    console.error('Could not decrypt the saved CalDAV account:', error)
+    return null
+  }
+}
+
+export async function getCaldavAccountSummary(): Promise<CaldavAccountSummary | null> {
+  const account = await getCaldavAccount()
+  return account ? summarize(account) : null
+}
+
+/**
+ * Saves the account after checking it against the server, so a wrong address or
+ * password is reported here rather than on the first import. A blank password
+ * keeps the saved one for the same server and username; null forgets the account.
+ */
+export async function saveCaldavAccount(
+  login: CaldavLogin | null
+): Promise<CaldavAccountSummary | null> {
+  if (!login) {
+    sealed = null
+    await writeJsonStore(STORE_FILE, {})
+    return null
+  }
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('The system keychain is not available, so the account cannot be saved.')
+  }
+
+  const saved = await getCaldavAccount()
+  const serverUrl = login.serverUrl.trim()
+  const username = login.username.trim()
+  const password =
+    login.password === '' && saved?.serverUrl === serverUrl && saved.username === username
+      ? saved.password
+      : login.password
+
+  const checked = { serverUrl, username, password }
+  const account: CaldavAccount = {
+    ...checked,
+    calendarHomeUrl: await discoverCalendarHome(checked)
+  }
+  sealed = safeStorage.encryptString(JSON.stringify(account)).toString('base64')
+  await writeJsonStore(STORE_FILE, { account: sealed })
+  return summarize(account)
+}
@@ -0,0 +1,424 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { app } from 'electron'
+import { asAppError } from './appErrors'
+import {
+  evaluateFilterRules,
+  type FilterDecision,
+  type FilterRule,
+  type FilterRuleSet
+} from './filterRules'
+import { serializeIcsEvents } from './icsExport'
+import type { IcsSource } from './icsSource'
+import {
+  importIcsToCalendar,
+  previewIcsEvents,
+  type CancelledEventMode,
+  type ExistingEventMode,
+  type ParsedIcsEvent
+} from './importIcs'
+import type { CalendarContainer } from './targets'
+
+// Status codes scripts can branch on
+export const CLI_EXIT = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+  // A feed or file could not be read or parsed
+  source: 3,
+  // The calendar or output file could not be written
+  destination: 4,
+  // import only: the tray app is running and would save its own import records over ours
+  appRunning: 5,
+  // Interrupted with Ctrl-C; what was written before is kept
+  cancelled: 130
+} as const
+
+const COMMANDS = ['preview', 'export', 'import', 'help'] as const
+
+type CliCommandName = (typeof COMMANDS)[number]
+
+type CliOptions = {
+  sources: IcsSource[]
+  // A lone - reads one more feed from standard input
+  stdin: boolean
+  json: boolean
+  // Title keywords applied ahead of the feed's saved filters
+  include: string[]
+  exclude: string[]
+  output: string | null
+  calendar: string | null
+  container: CalendarContainer
+  color: string
+  existing: ExistingEventMode
+  cancelled: CancelledEventMode
+  allowDuplicates: boolean
+}
+
+type CliCommand = { name: CliCommandName; options: CliOptions }
+
+class CliUsageError extends Error {}
+
+class CliFailure extends Error {
+  readonly exitCode: number
+  readonly fix: string | null
+
+  constructor(exitCode: number, message: string, fix: string | null) {
+    super(message)
+    this.exitCode = exitCode
+    this.fix = fix
+  }
+}
+
+const USAGE = `Usage: customcal <command> <feed...> [options]
+
+Feeds are http(s) or webcal links, .ics file paths, or - for standard input.
+Several feeds are merged and de-duplicated the way the popup does it.
+
+Commands:
+  preview                     List the events and whether the filters keep them
+  export                      Write the kept events to an .ics file
+  import                      Import the kept events into a calendar
+  help                        Show this message
+
+Options:
+  --json                      Print machine-readable JSON
+  --include <text>            Only keep events whose title contains the text (repeatable)
+  --exclude <text>            Drop events whose title contains the text (repeatable)
+  -o, --output <file>         export: file to write, standard output when omitted
+  --calendar <name>           import: destination calendar (required)
+  --container <name>          import: icloud, local, caldav or memory (default icloud)
+  --color <#RRGGBB>           import: color for a newly created calendar
+  --existing <mode>           import: skip, update or replace earlier imports (default skip)
+  --cancelled <mode>          import: remove or mark events the feed cancelled (default remove)
+  --allow-duplicates          import: also import events already in the calendar
+
+Exit status: 0 success, 1 unexpected error, 2 bad usage,
+3 a feed could not be read, 4 the calendar or file could not be written,
+5 import was refused because the CustomCal app is running, 130 the import was interrupted.
+`
+
+function commandIndex(args: string[]): number {
+  return args.findIndex((arg) => !arg.startsWith('-'))
+}
+
+// Launches from Finder or the dock carry only switches, so the popup starts as usual
+export function isCliInvocation(args: string[]): boolean {
+  const index = commandIndex(args)
+  return index >= 0 && (COMMANDS as readonly string[]).includes(args[index])
+}
+
+function oneOf<T extends string>(flag: string, value: string, allowed: readonly T[]): T {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new CliUsageError(`${flag} must be one of ${allowed.join(', ')}.`)
+  }
+  return value as T
+}
+
+function sourceFor(arg: string): IcsSource {
+  if (/^(https?|webcal):\/\//i.test(arg)) return { kind: 'url', url: arg }
+  return { kind: 'file', path: path.resolve(arg) }
+}
+
+function parseCliArgs(args: string[]): CliCommand {
+  const rest = [...args]
+  const index = commandIndex(rest)
+  const name = rest.splice(index, 1)[0] as CliCommandName
+
+  const options: CliOptions = {
+    sources: [],
+    stdin: false,
+    json: false,
+    include: [],
+    exclude: [],
+    output: null,
+    calendar: null,
+    container: 'icloud',
+    color: '#0A84FF',
+    existing: 'skip',
+    cancelled: 'remove',
+    allowDuplicates: false
+  }
+  const value = (flag: string): string => {
+    const next = rest.shift()
+    if (next === undefined) throw new CliUsageError(`${flag} needs a value.`)
+    return next
+  }
+
+  while (rest.length > 0) {
+    const arg = rest.shift() as string
+    switch (arg) {
+      case '--json':
+        options.json = true
+        break
+      case '--include':
+        options.include.push(value(arg))
+        break
+      case '--exclude':
+        options.exclude.push(value(arg))
+        break
+      case '-o':
+      case '--output':
+        options.output = value(arg)
+        break
+      case '--calendar':
+        options.calendar = value(arg).trim()
+        break
+      case '--container':
+        options.container = oneOf(arg, value(arg), ['icloud', 'local', 'caldav', 'memory'])
+        break
+      case '--color': {
+        const color = value(arg)
+        if (!/^#[0-9a-f]{6}$/i.test(color))
+          throw new CliUsageError('--color must look like #RRGGBB.')
+        options.color = color
+        break
+      }
+      case '--existing':
+        options.existing = oneOf(arg, value(arg), ['skip', 'update', 'replace'])
+        break
+      case '--cancelled':
+        options.cancelled = oneOf(arg, value(arg), ['remove', 'mark'])
+        break
+      case '--allow-duplicates':
+        options.allowDuplicates = true
+        break
+      case '-h':
+      case '--help':
+        return { name: 'help', options }
+      case '-':
+        options.stdin = true
+        break
+      default:
+        // macOS adds a -psn_ process serial number to some launches
+        if (arg.startsWith('-psn_')) break
+        if (arg.startsWith('-')) throw new CliUsageError(`Unknown option ${arg}.`)
+        options.sources.push(sourceFor(arg))
+    }
+  }
+
+  if (name === 'help') return { name, options }
+  if (options.sources.length === 0 && !options.stdin)
+    throw new CliUsageError(`${name} needs at least one feed.`)
+  if (name === 'import' && !options.calendar) {
+    throw new CliUsageError('import needs --calendar <name>.')
+  }
+  return { name, options }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function keywordRules(action: FilterRule['action'], keywords: string[]): FilterRule[] {
+  return keywords.map((value, index) => ({
+    id: `cli-${action}-${index}`,
+    action,
+    condition: { kind: 'keyword', field: 'summary', value }
+  }))
+}
+
+// --exclude is checked before the saved rules; --include then narrows what they keep
+function cliDecisions(
+  events: ParsedIcsEvent[],
+  saved: FilterRuleSet,
+  options: CliOptions
+): FilterDecision[] {
+  const decisions = evaluateFilterRules(events, {
+    fallback: saved.fallback,
+    rules: [...keywordRules('exclude', options.exclude), ...saved.rules]
+  })
+  if (options.include.length === 0) return decisions
+
+  const wanted = evaluateFilterRules(events, {
+    fallback: 'exclude',
+    rules: keywordRules('include', options.include)
+  })
+  return decisions.map((decision, index) =>
+    decision.included && !wanted[index].included
+      ? { included: false, ruleId: null, reason: 'Excluded: title matches no --include' }
+      : decision
+  )
+}
+
+function formatStart(event: ParsedIcsEvent): string {
+  const [y, mo, d, h, mi] = event.startWall
+  const pad = (n: number): string => String(n).padStart(2, '0')
+  const day = `${y}-${pad(mo)}-${pad(d)}`
+  return event.isAllDay ? `${day} all day` : `${day} ${pad(h)}:${pad(mi)}`
+}
+
+function print(text: string): void {
+  process.stdout.write(text.endsWith('\n') ? text : `${text}\n`)
+}
+
+// Tags a failure with the exit status for the step it happened in
+async function stage<T>(exitCode: number, run: () => Promise<T>): Promise<T> {
+  try {
+    return await run()
+  } catch (error) {
+    throw new CliFailure(
+      exitCode,
+      error instanceof Error ? error.message : String(error),
+      asAppError(error)?.fix ?? null
+    )
+  }
+}
+
+async function runCommand(command: CliCommand): Promise<number> {
+  const { name, options } = command
+  if (name === 'help') {
+    print(USAGE)
+    return CLI_EXIT.ok
+  }
+  // Held by the tray app for as long as it runs; released when this process exits
+  if (name === 'import' && !app.requestSingleInstanceLock()) {
+    throw new CliFailure(
+      CLI_EXIT.appRunning,
+      'CustomCal is running and would save its own import records over the ones this import writes.',
+      'Quit CustomCal from its tray icon and run the command again, or import from the popup.'
+    )
+  }
+
+  const preview = await stage(CLI_EXIT.source, async () => {
+    const sources = options.stdin
+      ? [...options.sources, { kind: 'text' as const, text: await readStdin() }]
+      : options.sources
+    return await previewIcsEvents({ sources })
+  })
+  const decisions = cliDecisions(preview.events, preview.filters, options)
+
+  // What the popup selects by default: kept by the filters, not cancelled, not a repeat
+  const keep = preview.events.map(
+    (event, index) =>
+      decisions[index].included &&
+      event.status !== 'cancelled' &&
+      preview.duplicates[index] === null
+  )
+  const kept = preview.prepared.filter((_, index) => keep[index])
+
+  if (name === 'preview') {
+    if (options.json) {
+      print(
+        JSON.stringify(
+          {
+            feed: preview.feed,
+            feeds: preview.feeds,
+            events: preview.prepared.map((event, index) => ({
+              ...event,
+              included: keep[index],
+              reason: decisions[index].reason,
+              group: preview.groups[index]?.label ?? null,
+              duplicateOf: preview.duplicates[index]
+            }))
+          },
+          null,
+          2
+        )
+      )
+    } else {
+      for (const [index, event] of preview.prepared.entries()) {
+        const note =
+          preview.duplicates[index] !== null
+            ? '  (duplicate)'
+            : event.status === 'cancelled'
+              ? '  (cancelled)'
+              : decisions[index].included
+                ? ''
+                : `  (${decisions[index].reason})`
+        print(`${keep[index] ? '+' : '-'} ${formatStart(event)}  ${event.summary}${note}`)
+      }
+      print(`${kept.length} of ${preview.events.length} events kept.`)
+    }
+    return CLI_EXIT.ok
+  }
+
+  if (name === 'export') {
+    const calendarName = options.output
+      ? path.basename(options.output, path.extname(options.output))
+      : 'Calendar'
+    const text = serializeIcsEvents(kept, { calendarName })
+    if (!options.output || options.output === '-') {
+      process.stdout.write(text)
+      return CLI_EXIT.ok
+    }
+    await stage(CLI_EXIT.destination, () =>
+      fs.writeFile(path.resolve(options.output as string), text, 'utf8')
+    )
+    const summary = { filePath: path.resolve(options.output), exported: kept.length }
+    print(
+      options.json
+        ? JSON.stringify(summary)
+        : `Exported ${kept.length} event${kept.length === 1 ? '' : 's'} to ${summary.filePath}.`
+    )
+    return CLI_EXIT.ok
+  }
+
+  // Cancelled events are only handed over to reconcile earlier imports
+  const cancelledEvents = preview.prepared.filter(
+    (event, index) => event.status === 'cancelled' && decisions[index].included
+  )
+  // Ctrl-C stops the import after its current batch instead of killing it mid-write
+  const controller = new AbortController()
+  const interrupt = (): void => controller.abort()
+  process.once('SIGINT', interrupt)
+  const result = await stage(CLI_EXIT.destination, () =>
+    importIcsToCalendar({
+      targetCalendarName: options.calendar as string,
+      container: options.container,
+      events: kept,
+      calendarColorHex: options.color,
+      feed: preview.feed,
+      existing: options.existing,
+      cancelled: options.cancelled,
+      cancelledEvents,
+      duplicates: options.allowDuplicates ? 'import' : 'skip',
+      signal: controller.signal,
+      onProgress: (progress) => {
+        if (!options.json && progress.remaining > 0) {
+          process.stderr.write(
+            `${progress.total - progress.remaining} of ${progress.total} written, ${progress.failed} failed\n`
+          )
+        }
+      }
+    })
+  ).finally(() => process.off('SIGINT', interrupt))
+
+  if (options.json) {
+    print(JSON.stringify(result))
+  } else {
+    print(
+      `Imported into "${options.calendar}": ${result.created} created, ${result.updated} updated, ` +
+        `${result.skipped} skipped (${result.duplicates} already in the calendar), ${result.removed} removed` +
+        (result.failed > 0 ? `, ${result.failed} refused by the calendar.` : '.')
+    )
+    if (result.stopped) {
+      print(`Stopped early: ${result.stopped.message} ${result.remaining} changes were not made.`)
+      if (result.stopped.fix) print(`Suggested fix: ${result.stopped.fix}`)
+    }
+  }
+  if (result.stopped?.reason === 'cancelled') return CLI_EXIT.cancelled
+  return result.stopped || result.failed > 0 ? CLI_EXIT.destination : CLI_EXIT.ok
+}
+
+/**
+ * Runs one command-line invocation without opening any window and resolves
+ * to the process exit status. Errors are reported on standard error.
+ */
+export async function runCli(args: string[]): Promise<number> {
+  try {
+    return await runCommand(parseCliArgs(args))
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`customcal: ${error.message}\n\n${USAGE}`)
+      return CLI_EXIT.usage
+    }
+    process.stderr.write(`customcal: ${error instanceof Error ? error.message : error}\n`)
+    if (error instanceof CliFailure && error.fix) {
+      process.stderr.write(`Suggested fix: ${error.fix}\n`)
+    }
+    return error instanceof CliFailure ? error.exitCode : CLI_EXIT.failed
+  }
+}
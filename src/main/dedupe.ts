@@ -0,0 +1,98 @@
+import { groupKeyForSummary } from './grouping'
+import type { ParsedIcsEvent } from './importIcs'
+import type { EventRange, ExistingEvent } from './targets'
+
+// Same title (ignoring case and surrounding space) at the same start and end
+export function sameTimeKey(event: Pick<ParsedIcsEvent, 'summary' | 'startMs' | 'endMs'>): string {
+  return JSON.stringify([groupKeyForSummary(event.summary), event.startMs, event.endMs])
+}
+
+function uidKey(event: ParsedIcsEvent): string | null {
+  return event.uid ? JSON.stringify([event.uid, event.recurrenceId]) : null
+}
+
+/**
+ * Finds events that repeat one read earlier from a different feed, matching by
+ * UID and recurrence or by title and time. Returns, for each event, the index of
+ * the first copy it duplicates, or null. Events within one feed never match each
+ * other, since a feed's own repeats are its business.
+ */
+export function findCrossFeedDuplicates(events: ParsedIcsEvent[]): (number | null)[] {
+  const firstByKey = new Map<string, number>()
+
+  return events.map((event, index) => {
+    const keys = [uidKey(event), sameTimeKey(event)].filter((key): key is string => key !== null)
+
+    for (const key of keys) {
+      const first = firstByKey.get(key)
+      if (first !== undefined && events[first].feed !== event.feed) return first
+    }
+    for (const key of keys) {
+      if (!firstByKey.has(key)) firstByKey.set(key, index)
+    }
+    return null
+  })
+}
+
+function localDate(ms: number): string {
+  const date = new Date(ms)
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+// Calendars store all-day events as local dates with their own notion of the
+// end, so those only compare by title and first day
+function calendarKey(
+  summary: string,
+  isAllDay: boolean,
+  startMs: number,
+  endMs: number,
+  startDay: string
+): string {
+  return isAllDay
+    ? JSON.stringify([groupKeyForSummary(summary), 'all-day', startDay])
+    : JSON.stringify([groupKeyForSummary(summary), startMs, endMs])
+}
+
+// The span to read back from the calendar, widened a day for all-day events in other zones
+export function eventSpan(events: ParsedIcsEvent[]): EventRange | null {
+  if (events.length === 0) return null
+  const oneDay = 24 * 60 * 60 * 1000
+  return {
+    startMs: events.reduce((min, event) => Math.min(min, event.startMs), Infinity) - oneDay,
+    endMs: events.reduce((max, event) => Math.max(max, event.endMs), -Infinity) + oneDay
+  }
+}
+
+/**
+ * Matches events about to be imported against events already in the calendar
+ * by title, start and end. Returns the existing event's id for each likely
+ * duplicate, or null.
+ */
+export function findCalendarDuplicates(
+  events: ParsedIcsEvent[],
+  existing: ExistingEvent[]
+): (string | null)[] {
+  const byKey = new Map<string, string>()
+  for (const event of existing) {
+    byKey.set(
+      calendarKey(
+        event.summary,
+        event.isAllDay,
+        event.startMs,
+        event.endMs,
+        localDate(event.startMs)
+      ),
+      event.eventId
+    )
+  }
+
+  return events.map((event) => {
+    const startDay = event.startYMD
+      ? `${event.startYMD[0]}-${event.startYMD[1]}-${event.startYMD[2]}`
+      : localDate(event.startMs)
+    return (
+      byKey.get(calendarKey(event.summary, event.isAllDay, event.startMs, event.endMs, startDay)) ??
+      null
+    )
+  })
+}
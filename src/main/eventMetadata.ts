@@ -0,0 +1,91 @@
+export type EventStatus = 'confirmed' | 'tentative' | 'cancelled'
+
+export type EventParticipant = {
+  name: string | null
+  email: string | null
+  // Lower-cased PARTSTAT, e.g. "accepted" or "needs-action"
+  status: string | null
+}
+
+export type EventMetadata = {
+  url: string | null
+  status: EventStatus | null
+  organizer: EventParticipant | null
+  attendees: EventParticipant[]
+  // TRANSP; transparent events do not block time
+  transparency: 'opaque' | 'transparent'
+  sequence: number
+  lastModifiedMs: number | null
+}
+
+type SourceMetadata = {
+  url?: unknown
+  status?: unknown
+  organizer?: unknown
+  attendee?: unknown
+  transparency?: unknown
+  sequence?: unknown
+  lastmodified?: unknown
+}
+
+type PropertyValue = { params: Record<string, unknown>; val: string }
+
+// node-ical keeps plain properties as strings and parameterised ones as { params, val }
+function propertyValue(value: unknown): PropertyValue | null {
+  if (typeof value === 'string') return { params: {}, val: value }
+  if (typeof value === 'object' && value !== null && 'val' in value) {
+    const { params, val } = value as { params?: Record<string, unknown>; val: unknown }
+    return typeof val === 'string' ? { params: params ?? {}, val } : null
+  }
+  return null
+}
+
+function paramText(params: Record<string, unknown>, name: string): string | null {
+  const value = params[name]
+  return typeof value === 'string' && value.trim() ? value.trim().replace(/^"|"$/g, '') : null
+}
+
+function parseParticipant(value: unknown): EventParticipant | null {
+  const property = propertyValue(value)
+  if (!property) return null
+  const address = property.val.trim().replace(/^mailto:/i, '')
+  return {
+    name: paramText(property.params, 'CN'),
+    email: address || null,
+    status: paramText(property.params, 'PARTSTAT')?.toLowerCase() ?? null
+  }
+}
+
+function parseStatus(value: unknown): EventStatus | null {
+  const status = propertyValue(value)?.val.trim().toLowerCase()
+  return status === 'confirmed' || status === 'tentative' || status === 'cancelled' ? status : null
+}
+
+/**
+ * Reads the descriptive properties of a VEVENT that are not about time:
+ * link, status, people, availability and revision.
+ */
+export function parseEventMetadata(v: SourceMetadata): EventMetadata {
+  const attendees = Array.isArray(v.attendee) ? v.attendee : v.attendee ? [v.attendee] : []
+  const sequence = Number(v.sequence)
+  const lastModified = v.lastmodified instanceof Date ? v.lastmodified.getTime() : NaN
+
+  return {
+    url: propertyValue(v.url)?.val.trim() || null,
+    status: parseStatus(v.status),
+    organizer: parseParticipant(v.organizer),
+    attendees: attendees
+      .map(parseParticipant)
+      .filter((attendee): attendee is EventParticipant => attendee !== null),
+    transparency:
+      propertyValue(v.transparency)?.val.trim().toUpperCase() === 'TRANSPARENT'
+        ? 'transparent'
+        : 'opaque',
+    sequence: Number.isInteger(sequence) && sequence >= 0 ? sequence : 0,
+    lastModifiedMs: Number.isNaN(lastModified) ? null : lastModified
+  }
+}
+
+export function participantLabel(participant: EventParticipant): string {
+  return participant.name ?? participant.email ?? ''
+}
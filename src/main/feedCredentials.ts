@@ -0,0 +1,110 @@
+import { safeStorage } from 'electron'
+import { readJsonStore, writeJsonStore } from './jsonStore'
+
+export type FeedAuth =
+  | { kind: 'none' }
+  | { kind: 'basic'; username: string; password: string }
+  | { kind: 'bearer'; token: string }
+
+export type FeedCredentials = {
+  auth: FeedAuth
+  // Extra request headers, e.g. an API key some calendar hosts expect
+  headers: Record<string, string>
+}
+
+// What the popup is shown about saved credentials; secrets never leave the main process
+export type FeedCredentialSummary = {
+  authKind: FeedAuth['kind']
+  username: string | null
+  headerNames: string[]
+}
+
+const STORE_FILE = 'feed-credentials.json'
+
+// Encrypted per feed with the key safeStorage keeps in the OS keychain
+let sealed: Record<string, string> | null = null
+
+async function loadSealed(): Promise<Record<string, string>> {
+  if (sealed) return sealed
+
+  const stored = await readJsonStore<{ feeds?: Record<string, string> }>(STORE_FILE, {})
+  sealed = typeof stored.feeds === 'object' && stored.feeds !== null ? stored.feeds : {}
+  return sealed
+}
+
+function summarize(credentials: FeedCredentials): FeedCredentialSummary {
+  return {
+    authKind: credentials.auth.kind,
+    username: credentials.auth.kind === 'basic' ? credentials.auth.username : null,
+    headerNames: Object.keys(credentials.headers)
+  }
+}
+
+function isEmpty(credentials: FeedCredentials): boolean {
+  return credentials.auth.kind === 'none' && Object.keys(credentials.headers).length === 0
+}
+
+function assertHeaders(headers: Record<string, string>): void {
+  for (const [name, value] of Object.entries(headers)) {
+    if (!/^[!#$%&'*+.^_`|~0-9a-z-]+$/i.test(name)) {
+      throw new Error(`"${name}" is not a valid header name.`)
+    }
+    if (/[\r\n]/.test(value)) throw new Error(`The value of ${name} cannot span lines.`)
+  }
+}
+
+export async function getFeedCredentials(feed: string): Promise<FeedCredentials | null> {
+  const value = (await loadSealed())[feed]
+  if (!value || !safeStorage.isEncryptionAvailable()) return null
+
+  try {
+    return JSON.parse(safeStorage.decryptString(Buffer.from(value, 'base64'))) as FeedCredentials
+  } catch (error) {
+    console.error(`Could not decrypt the credentials saved for ${feed}:`, error)
+    return null
+  }
+}
+
+export async function getFeedCredentialSummary(
+  feed: string
+): Promise<FeedCredentialSummary | null> {
+  const credentials = await getFeedCredentials(feed)
+  return credentials ? summarize(credentials) : null
+}
+
+export async function saveFeedCredentials(
+  feed: string,
+  credentials: FeedCredentials
+): Promise<FeedCredentialSummary | null> {
+  assertHeaders(credentials.headers)
+  const all = await loadSealed()
+
+  if (isEmpty(credentials)) {
+    delete all[feed]
+  } else {
+    if (!safeStorage.isEncryptionAvailable()) {
+      throw new Error('The system keychain is not available, so credentials cannot be saved.')
+    }
+    all[feed] = safeStorage.encryptString(JSON.stringify(credentials)).toString('base64')
+  }
+
+  await writeJsonStore(STORE_FILE, { feeds: all })
+  return isEmpty(credentials) ? null : summarize(credentials)
+}
+
+export function credentialHeaders(credentials: FeedCredentials | null): Record<string, string> {
+  if (!credentials) return {}
+
+  const headers = { ...credentials.headers }
+  switch (credentials.auth.kind) {
+    case 'basic': {
+      const { username, password } = credentials.auth
+      headers.Authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`
+      break
+    }
+    case 'bearer':
+      headers.Authorization = `Bearer ${credentials.auth.token}`
+      break
+  }
+  return headers
+}
@@ -0,0 +1,213 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import zlib from 'node:zlib'
+import { afterEach, describe, expect, it } from 'vitest'
+import { fetchFeed, FeedFetchError } from './feedFetch'
+
+const CALENDAR = 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nEND:VCALENDAR\r\n'
+
+type Seen = { url: string; headers: http.IncomingHttpHeaders }
+
+const servers: http.Server[] = []
+
+// A local server on a free port; every request it answers is recorded in `seen`
+async function serve(
+  handler: (request: http.IncomingMessage, response: http.ServerResponse) => void
+): Promise<{ origin: string; seen: Seen[] }> {
+  const seen: Seen[] = []
+  const server = http.createServer((request, response) => {
+    seen.push({ url: request.url ?? '', headers: request.headers })
+    handler(request, response)
+  })
+  servers.push(server)
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  return { origin: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, seen }
+}
+
+afterEach(async () => {
+  const closing = servers.splice(0).map(
+    (server) =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections()
+        server.close(() => resolve())
+      })
+  )
+  await Promise.all(closing)
+})
+
+async function fetchError(promise: Promise<unknown>): Promise<FeedFetchError> {
+  const error = await promise.then(
+    () => null,
+    (e: unknown) => e
+  )
+  expect(error).toBeInstanceOf(FeedFetchError)
+  return error as FeedFetchError
+}
+
+describe('fetchFeed', () => {
+  it('returns the body with its validators', async () => {
+    const { origin } = await serve((_, response) => {
+      response.writeHead(200, { ETag: '"v1"', 'Last-Modified': 'Mon, 02 Mar 2026 09:00:00 GMT' })
+      response.end(CALENDAR)
+    })
+
+    expect(await fetchFeed({ url: `${origin}/cal.ics` })).toEqual({
+      kind: 'ok',
+      text: CALENDAR,
+      etag: '"v1"',
+      lastModified: 'Mon, 02 Mar 2026 09:00:00 GMT',
+      url: `${origin}/cal.ics`
+    })
+  })
+
+  it('sends the validators back and reports an unchanged feed', async () => {
+    const { origin, seen } = await serve((_, response) => {
+      response.writeHead(304)
+      response.end()
+    })
+
+    expect(await fetchFeed({ url: `${origin}/cal.ics`, etag: '"v1"' })).toEqual({
+      kind: 'notModified'
+    })
+    expect(seen[0].headers['if-none-match']).toBe('"v1"')
+  })
+
+  it('follows redirects and reports the final URL', async () => {
+    const { origin, seen } = await serve((request, response) => {
+      if (request.url === '/cal.ics') {
+        response.end(CALENDAR)
+        return
+      }
+      const next = request.url === '/old.ics' ? '/moved.ics' : '/cal.ics'
+      response.writeHead(request.url === '/old.ics' ? 301 : 302, { Location: next })
+      response.end()
+    })
+
+    const result = await fetchFeed({ url: `${origin}/old.ics` })
+
+    expect(result).toMatchObject({ kind: 'ok', url: `${origin}/cal.ics` })
+    expect(seen.map(({ url }) => url)).toEqual(['/old.ics', '/moved.ics', '/cal.ics'])
+  })
+
+  it('stops after the redirect limit', async () => {
+    const { origin, seen } = await serve((request, response) => {
+      response.writeHead(302, { Location: `${request.url}x` })
+      response.end()
+    })
+
+    const error = await fetchError(
+      fetchFeed({ url: `${origin}/loop`, limits: { maxRedirects: 2 } })
+    )
+
+    expect(error.code).toBe('tooManyRedirects')
+    expect(seen).toHaveLength(3)
+  })
+
+  it('sends credentials to the feed origin only, not to where it redirects', async () => {
+    const elsewhere = await serve((_, response) => response.end(CALENDAR))
+    const feed = await serve((_, response) => {
+      response.writeHead(302, { Location: `${elsewhere.origin}/cal.ics` })
+      response.end()
+    })
+
+    await fetchFeed({
+      url: `${feed.origin}/cal.ics`,
+      headers: { Authorization: 'Basic dXNlcjpzZWNyZXQ=' },
+      etag: '"v1"'
+    })
+
+    expect(feed.seen[0].headers.authorization).toBe('Basic dXNlcjpzZWNyZXQ=')
+    expect(elsewhere.seen[0].headers.authorization).toBeUndefined()
+    expect(elsewhere.seen[0].headers['if-none-match']).toBeUndefined()
+  })
+
+  it('maps statuses to error codes', async () => {
+    const { origin } = await serve((request, response) => {
+      response.writeHead(Number(request.url?.slice(1)))
+      response.end()
+    })
+
+    const codes = await Promise.all(
+      [401, 403, 404, 410, 500].map(
+        async (status) => (await fetchError(fetchFeed({ url: `${origin}/${status}` }))).code
+      )
+    )
+
+    expect(codes).toEqual(['unauthorized', 'forbidden', 'notFound', 'notFound', 'httpStatus'])
+  })
+
+  it('refuses a declared length over the limit', async () => {
+    const { origin } = await serve((_, response) => {
+      response.writeHead(200, { 'Content-Length': 4096 })
+      response.end('x'.repeat(4096))
+    })
+
+    const error = await fetchError(fetchFeed({ url: origin, limits: { maxBytes: 1024 } }))
+
+    expect(error.code).toBe('tooLarge')
+  })
+
+  it('stops reading an uncompressed body sent without a length once it passes the limit', async () => {
+    const { origin } = await serve((_, response) => {
+      response.writeHead(200)
+      for (let i = 0; i < 8; i++) response.write('x'.repeat(1024))
+      // Left open, so only the size check can end the fetch before the timeout
+    })
+
+    const started = Date.now()
+    const error = await fetchError(
+      fetchFeed({ url: origin, limits: { maxBytes: 1024, timeoutMs: 5_000 } })
+    )
+
+    expect(error.code).toBe('tooLarge')
+    expect(Date.now() - started).toBeLessThan(2_000)
+  })
+
+  it('reports a connection that closes part way through the body', async () => {
+    const { origin } = await serve((_, response) => {
+      response.writeHead(200)
+      response.write('BEGIN:VCALENDAR\r\n')
+      setTimeout(() => response.socket?.destroy(), 50)
+    })
+
+    const error = await fetchError(fetchFeed({ url: origin, limits: { timeoutMs: 5_000 } }))
+
+    expect(error.code).toBe('network')
+  })
+
+  it('measures the size after decompression', async () => {
+    const body = zlib.gzipSync(CALENDAR + 'X'.repeat(64 * 1024))
+    const { origin } = await serve((_, response) => {
+      response.writeHead(200, { 'Content-Encoding': 'gzip' })
+      response.end(body)
+    })
+
+    expect(body.length).toBeLessThan(16 * 1024)
+    const error = await fetchError(fetchFeed({ url: origin, limits: { maxBytes: 16 * 1024 } }))
+
+    expect(error.code).toBe('tooLarge')
+  })
+
+  it('times out a server that never finishes', async () => {
+    const { origin } = await serve((_, response) => {
+      response.writeHead(200)
+      response.write('BEGIN:VCALENDAR\r\n')
+    })
+
+    const error = await fetchError(fetchFeed({ url: origin, limits: { timeoutMs: 200 } }))
+
+    expect(error.code).toBe('timeout')
+  })
+
+  it('rejects a body that is not a calendar', async () => {
+    const { origin } = await serve((_, response) => {
+      response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+      response.end('<html></html>')
+    })
+
+    const error = await fetchError(fetchFeed({ url: origin }))
+
+    expect(error.code).toBe('notCalendar')
+    expect(error.message).toContain('text/html')
+  })
+})
@@ -0,0 +1,284 @@
+import http from 'node:http'
+import https from 'node:https'
+import type { Readable } from 'node:stream'
+import zlib from 'node:zlib'
+
+export type FeedFetchErrorCode =
+  | 'invalidUrl'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'notFound'
+  | 'httpStatus'
+  | 'tooManyRedirects'
+  | 'timeout'
+  | 'tooLarge'
+  | 'dns'
+  | 'network'
+  | 'notCalendar'
+
+export class FeedFetchError extends Error {
+  readonly code: FeedFetchErrorCode
+  // HTTP status for errors that came from a response, null for connection failures
+  readonly status: number | null
+
+  constructor(code: FeedFetchErrorCode, message: string, status: number | null = null) {
+    super(message)
+    this.name = 'FeedFetchError'
+    this.code = code
+    this.status = status
+  }
+}
+
+export type FeedFetchLimits = {
+  // Covers the whole fetch, redirects and body included
+  timeoutMs: number
+  // Measured after decompression so a small gzip body cannot expand without bound
+  maxBytes: number
+  maxRedirects: number
+}
+
+export const DEFAULT_FETCH_LIMITS: FeedFetchLimits = {
+  timeoutMs: 30_000,
+  maxBytes: 20 * 1024 * 1024,
+  maxRedirects: 5
+}
+
+export type FeedRequest = {
+  url: string
+  headers?: Record<string, string>
+  // Validators from the last successful fetch, sent as a conditional GET
+  etag?: string | null
+  lastModified?: string | null
+  limits?: Partial<FeedFetchLimits>
+}
+
+export type FeedResponse =
+  | { kind: 'notModified' }
+  | { kind: 'ok'; text: string; etag: string | null; lastModified: string | null; url: string }
+
+const USER_AGENT = 'CustomCalendar/0.0.1'
+
+type RawResponse = { status: number; headers: http.IncomingHttpHeaders; body: Buffer | null }
+
+function headerValue(value: string | string[] | undefined): string | null {
+  const first = Array.isArray(value) ? value[0] : value
+  return first?.trim() || null
+}
+
+function parseFeedUrl(url: string): URL {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new FeedFetchError('invalidUrl', `"${url}" is not a valid URL.`)
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FeedFetchError('invalidUrl', `Only http, https and webcal links are supported.`)
+  }
+  return parsed
+}
+
+function decodedBody(response: http.IncomingMessage): Readable {
+  switch (headerValue(response.headers['content-encoding'])?.toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return response.pipe(zlib.createGunzip())
+    case 'deflate':
+      return response.pipe(zlib.createInflate())
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress())
+    default:
+      return response
+  }
+}
+
+function connectionError(error: NodeJS.ErrnoException, url: URL): FeedFetchError {
+  if (error instanceof FeedFetchError) return error
+  if (error.code === 'ENOTFOUND' || error.code === 'EAI_AGAIN') {
+    return new FeedFetchError('dns', `Could not find the server ${url.hostname}.`)
+  }
+  if (error.code === 'Z_DATA_ERROR' || error.code === 'Z_BUF_ERROR') {
+    return new FeedFetchError('network', `${url.hostname} sent a corrupt compressed response.`)
+  }
+  return new FeedFetchError('network', `Could not reach ${url.hostname}: ${error.message}`)
+}
+
+// One request without following redirects; bodies are only read for 2xx responses
+function requestOnce(
+  url: URL,
+  headers: Record<string, string>,
+  maxBytes: number,
+  signal: AbortSignal
+): Promise<RawResponse> {
+  const client = url.protocol === 'https:' ? https : http
+
+  return new Promise((resolve, reject) => {
+    let settled = false
+    const settle = (finish: () => void): void => {
+      if (settled) return
+      settled = true
+      signal.removeEventListener('abort', onAbort)
+      finish()
+    }
+    // An abort surfaces as a generic socket error; report the reason it was aborted for
+    const fail = (error: NodeJS.ErrnoException): void =>
+      settle(() => reject(signal.aborted ? signal.reason : connectionError(error, url)))
+    // Covers a body that stalls with no socket error to report
+    const onAbort = (): void => settle(() => reject(signal.reason))
+    signal.addEventListener('abort', onAbort)
+
+    const request = client.get(url, { headers, signal }, (response) => {
+      const status = response.statusCode ?? 0
+      if (status < 200 || status >= 300) {
+        response.resume()
+        settle(() => resolve({ status, headers: response.headers, body: null }))
+        return
+      }
+
+      const declared = Number(response.headers['content-length'])
+      if (Number.isFinite(declared) && declared > maxBytes) {
+        settle(() => reject(tooLarge(maxBytes)))
+        response.destroy()
+        return
+      }
+
+      const body = decodedBody(response)
+      const chunks: Buffer[] = []
+      let size = 0
+      body.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > maxBytes) {
+          // Without compression the body is the response itself, and destroying it says nothing
+          settle(() => reject(tooLarge(maxBytes)))
+          response.destroy()
+          if (body !== response) body.destroy()
+          return
+        }
+        chunks.push(chunk)
+      })
+      body.on('end', () =>
+        settle(() => resolve({ status, headers: response.headers, body: Buffer.concat(chunks) }))
+      )
+      body.on('error', fail)
+      response.on('error', fail)
+      // A connection that closes part way may do so without an error
+      const closed = (): void =>
+        fail(new Error('The connection closed before the whole feed arrived.'))
+      response.on('close', () => {
+        if (!response.complete) closed()
+      })
+      body.on('close', closed)
+    })
+
+    request.on('error', fail)
+  })
+}
+
+function tooLarge(maxBytes: number): FeedFetchError {
+  const limit =
+    maxBytes >= 1024 * 1024
+      ? `${Math.round(maxBytes / (1024 * 1024))} MB`
+      : `${Math.ceil(maxBytes / 1024)} KB`
+  return new FeedFetchError('tooLarge', `The feed is larger than ${limit}.`)
+}
+
+function statusError(status: number, url: URL): FeedFetchError {
+  switch (status) {
+    case 401:
+      return new FeedFetchError(
+        'unauthorized',
+        `${url.hostname} needs a login for this feed.`,
+        status
+      )
+    case 403:
+      return new FeedFetchError('forbidden', `${url.hostname} refused access to this feed.`, status)
+    case 404:
+    case 410:
+      return new FeedFetchError('notFound', `No feed was found at ${url.href}.`, status)
+    default:
+      return new FeedFetchError(
+        'httpStatus',
+        `${url.hostname} answered with HTTP ${status}.`,
+        status
+      )
+  }
+}
+
+function assertCalendarBody(text: string, contentType: string | null): void {
+  if (/BEGIN:VCALENDAR/i.test(text.slice(0, 4096))) return
+  const type = contentType?.split(';')[0].trim()
+  throw new FeedFetchError(
+    'notCalendar',
+    type
+      ? `The link returned ${type} instead of an iCalendar file.`
+      : 'The link does not return an iCalendar file.'
+  )
+}
+
+/**
+ * Fetches a feed with the given headers, following a limited number of
+ * redirects and decompressing gzip, deflate and brotli bodies. Credentials are
+ * only sent to the origin they were configured for. Every failure is thrown as
+ * a FeedFetchError.
+ */
+export async function fetchFeed(request: FeedRequest): Promise<FeedResponse> {
+  const limits = { ...DEFAULT_FETCH_LIMITS, ...request.limits }
+  const origin = parseFeedUrl(request.url).origin
+  const controller = new AbortController()
+  const timer = setTimeout(
+    () =>
+      controller.abort(
+        new FeedFetchError(
+          'timeout',
+          `The feed did not respond within ${limits.timeoutMs / 1000} seconds.`
+        )
+      ),
+    limits.timeoutMs
+  )
+
+  try {
+    let url = parseFeedUrl(request.url)
+    for (let redirects = 0; ; redirects++) {
+      const sameOrigin = url.origin === origin
+      const headers: Record<string, string> = {
+        'User-Agent': USER_AGENT,
+        Accept: 'text/calendar, text/plain;q=0.8, */*;q=0.5',
+        'Accept-Encoding': 'gzip, deflate, br',
+        ...(sameOrigin ? request.headers : {})
+      }
+      if (sameOrigin && request.etag) headers['If-None-Match'] = request.etag
+      if (sameOrigin && request.lastModified) headers['If-Modified-Since'] = request.lastModified
+
+      const response = await requestOnce(url, headers, limits.maxBytes, controller.signal)
+
+      if (response.status === 304) return { kind: 'notModified' }
+
+      const location = headerValue(response.headers.location)
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= limits.maxRedirects) {
+          throw new FeedFetchError(
+            'tooManyRedirects',
+            `The feed redirected more than ${limits.maxRedirects} times.`,
+            response.status
+          )
+        }
+        url = parseFeedUrl(new URL(location, url).href)
+        continue
+      }
+
+      if (!response.body) throw statusError(response.status, url)
+
+      const text = response.body.toString('utf8')
+      assertCalendarBody(text, headerValue(response.headers['content-type']))
+      return {
+        kind: 'ok',
+        text,
+        etag: headerValue(response.headers.etag),
+        lastModified: headerValue(response.headers['last-modified']),
+        url: url.href
+      }
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
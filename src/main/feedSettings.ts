@@ -0,0 +1,50 @@
+import { DEFAULT_ALERT_SETTINGS, type AlertSettings } from './alarms'
+import { EMPTY_RULE_SET, type FilterRuleSet } from './filterRules'
+import { DEFAULT_GROUPING, type GroupingStrategy } from './grouping'
+import { readJsonStore, writeJsonStore } from './jsonStore'
+import type { RewriteRule } from './rewriteRules'
+
+// Per-feed review settings, keyed by feed identity so they come back on the next preview
+export type FeedSettings = {
+  filters: FilterRuleSet
+  grouping: GroupingStrategy
+  rewrites: RewriteRule[]
+  alerts: AlertSettings
+}
+
+const STORE_FILE = 'feed-settings.json'
+
+let settings: Record<string, FeedSettings> | null = null
+
+function defaultFeedSettings(): FeedSettings {
+  return {
+    filters: { ...EMPTY_RULE_SET, rules: [] },
+    grouping: DEFAULT_GROUPING,
+    rewrites: [],
+    alerts: DEFAULT_ALERT_SETTINGS
+  }
+}
+
+async function loadFeedSettings(): Promise<Record<string, FeedSettings>> {
+  if (settings) return settings
+
+  const stored = await readJsonStore<{ feeds?: Record<string, FeedSettings> }>(STORE_FILE, {})
+  settings = typeof stored.feeds === 'object' && stored.feeds !== null ? stored.feeds : {}
+  return settings
+}
+
+export async function getFeedSettings(feed: string): Promise<FeedSettings> {
+  const stored = (await loadFeedSettings())[feed]
+  return { ...defaultFeedSettings(), ...stored }
+}
+
+export async function updateFeedSettings(
+  feed: string,
+  patch: Partial<FeedSettings>
+): Promise<FeedSettings> {
+  const all = await loadFeedSettings()
+  const next = { ...(await getFeedSettings(feed)), ...patch }
+  all[feed] = next
+  await writeJsonStore(STORE_FILE, { feeds: all })
+  return next
+}
@@ -0,0 +1,197 @@
+import { participantLabel, type EventStatus } from './eventMetadata'
+import type { ParsedIcsEvent } from './importIcs'
+import type { WallTime } from './timezone'
+
+export type FilterTextField =
+  | 'summary'
+  | 'location'
+  | 'description'
+  | 'categories'
+  | 'organizer'
+  | 'attendees'
+  | 'url'
+
+export type FilterCondition =
+  | { kind: 'keyword'; field: FilterTextField; value: string }
+  | { kind: 'regex'; field: FilterTextField; pattern: string }
+  // Inclusive YYYY-MM-DD bounds on the start date
+  | { kind: 'dateRange'; from: string | null; to: string | null }
+  // 0 = Sunday
+  | { kind: 'weekdays'; days: number[] }
+  // HH:MM start-time window; `to` before `from` wraps past midnight
+  | { kind: 'timeOfDay'; from: string; to: string }
+  | { kind: 'duration'; minMinutes: number | null; maxMinutes: number | null }
+  | { kind: 'allDay'; allDay: boolean }
+  // Events without a STATUS count as confirmed
+  | { kind: 'status'; statuses: EventStatus[] }
+  | { kind: 'availability'; transparent: boolean }
+
+export type FilterRule = {
+  id: string
+  action: 'include' | 'exclude'
+  condition: FilterCondition
+}
+
+export type FilterRuleSet = {
+  // What happens to events no rule matches
+  fallback: 'include' | 'exclude'
+  rules: FilterRule[]
+}
+
+export type FilterDecision = {
+  included: boolean
+  ruleId: string | null
+  reason: string
+}
+
+export const EMPTY_RULE_SET: FilterRuleSet = { fallback: 'include', rules: [] }
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+type Matcher = (event: ParsedIcsEvent) => boolean
+
+function dateKey([y, mo, d]: WallTime): string {
+  return `${y}-${String(mo).padStart(2, '0')}-${String(d).padStart(2, '0')}`
+}
+
+function minutesOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim())
+  return match ? Number(match[1]) * 60 + Number(match[2]) : 0
+}
+
+// Multi-valued fields are matched as one line, so a keyword can hit any of their values
+function fieldText(event: ParsedIcsEvent, field: FilterTextField): string {
+  switch (field) {
+    case 'categories':
+      return event.categories.join('\n')
+    case 'organizer':
+      return event.organizer
+        ? [event.organizer.name, event.organizer.email].filter(Boolean).join(' ')
+        : ''
+    case 'attendees':
+      return event.attendees.map(participantLabel).join('\n')
+    case 'url':
+      return event.url ?? ''
+    default:
+      return event[field]
+  }
+}
+
+function describeCondition(condition: FilterCondition): string {
+  switch (condition.kind) {
+    case 'keyword':
+      return `${condition.field} contains "${condition.value}"`
+    case 'regex':
+      return `${condition.field} matches /${condition.pattern}/`
+    case 'dateRange':
+      if (condition.from && condition.to) return `date ${condition.from} to ${condition.to}`
+      if (condition.from) return `date from ${condition.from}`
+      return condition.to ? `date until ${condition.to}` : 'any date'
+    case 'weekdays':
+      return `on ${condition.days.map((day) => WEEKDAY_NAMES[day]).join(', ') || 'no weekday'}`
+    case 'timeOfDay':
+      return `starts ${condition.from}-${condition.to}`
+    case 'duration':
+      if (condition.minMinutes !== null && condition.maxMinutes !== null) {
+        return `lasts ${condition.minMinutes}-${condition.maxMinutes} min`
+      }
+      if (condition.minMinutes !== null) return `lasts at least ${condition.minMinutes} min`
+      return condition.maxMinutes !== null
+        ? `lasts at most ${condition.maxMinutes} min`
+        : 'any length'
+    case 'allDay':
+      return condition.allDay ? 'all-day' : 'timed'
+    case 'status':
+      return `status ${condition.statuses.join(' or ') || 'none'}`
+    case 'availability':
+      return condition.transparent ? 'shown as free' : 'shown as busy'
+  }
+}
+
+function compileCondition(condition: FilterCondition): Matcher {
+  switch (condition.kind) {
+    case 'keyword': {
+      const needle = condition.value.trim().toLocaleLowerCase()
+      return (event) =>
+        needle !== '' && fieldText(event, condition.field).toLocaleLowerCase().includes(needle)
+    }
+    case 'regex': {
+      let pattern: RegExp
+      try {
+        pattern = new RegExp(condition.pattern, 'i')
+      } catch (error) {
+        throw new Error(
+          `Invalid pattern /${condition.pattern}/: ${error instanceof Error ? error.message : error}`
+        )
+      }
+      return (event) => pattern.test(fieldText(event, condition.field))
+    }
+    case 'dateRange':
+      // Dates are read in the event's own zone, the way the feed wrote them
+      return (event) => {
+        const day = dateKey(event.startWall)
+        return (!condition.from || day >= condition.from) && (!condition.to || day <= condition.to)
+      }
+    case 'weekdays':
+      return (event) => {
+        const [y, mo, d] = event.startWall
+        return condition.days.includes(new Date(Date.UTC(y, mo - 1, d)).getUTCDay())
+      }
+    case 'timeOfDay': {
+      const from = minutesOfDay(condition.from)
+      const to = minutesOfDay(condition.to)
+      return (event) => {
+        if (event.isAllDay) return false
+        const start = event.startWall[3] * 60 + event.startWall[4]
+        return from <= to ? start >= from && start < to : start >= from || start < to
+      }
+    }
+    case 'duration':
+      return (event) => {
+        const minutes = (event.endMs - event.startMs) / 60000
+        return (
+          (condition.minMinutes === null || minutes >= condition.minMinutes) &&
+          (condition.maxMinutes === null || minutes <= condition.maxMinutes)
+        )
+      }
+    case 'allDay':
+      return (event) => event.isAllDay === condition.allDay
+    case 'status':
+      return (event) => condition.statuses.includes(event.status ?? 'confirmed')
+    case 'availability':
+      return (event) => (event.transparency === 'transparent') === condition.transparent
+  }
+}
+
+/**
+ * Decides for every event whether it is imported. Rules are checked in order
+ * and the first match wins; events no rule matches follow the fallback.
+ */
+export function evaluateFilterRules(
+  events: ParsedIcsEvent[],
+  ruleSet: FilterRuleSet
+): FilterDecision[] {
+  const compiled = ruleSet.rules.map((rule) => ({
+    rule,
+    matches: compileCondition(rule.condition),
+    label: describeCondition(rule.condition)
+  }))
+
+  return events.map((event) => {
+    const hit = compiled.find(({ matches }) => matches(event))
+    if (!hit) {
+      const included = ruleSet.fallback === 'include'
+      return {
+        included,
+        ruleId: null,
+        reason: `${included ? 'Included' : 'Excluded'}: no rule matched`
+      }
+    }
+    const included = hit.rule.action === 'include'
+    return {
+      included,
+      ruleId: hit.rule.id,
+      reason: `${included ? 'Included' : 'Excluded'}: ${hit.label}`
+    }
+  })
+}
@@ -0,0 +1,107 @@
+import { participantLabel } from './eventMetadata'
+import type { ParsedIcsEvent } from './importIcs'
+
+export type GroupingStrategy =
+  | { kind: 'title' }
+  | { kind: 'normalizedTitle'; stripPatterns: string[] }
+  | { kind: 'series' }
+  | { kind: 'location' }
+  | { kind: 'category' }
+  | { kind: 'organizer' }
+
+export type EventGroupAssignment = {
+  key: string
+  label: string
+}
+
+export const DEFAULT_GROUPING: GroupingStrategy = { kind: 'title' }
+
+// Strip dates, topics after a separator, bracketed course codes and numbering,
+// so "Lecture 3: Graphs" and "Lecture 4: Trees" both become "Lecture"
+export const DEFAULT_STRIP_PATTERNS = [
+  '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+  '\\b\\d{1,2}[./]\\d{1,2}(?:[./]\\d{2,4})?\\b',
+  '\\s+[:|–—-]\\s.*$|:.*$',
+  '^\\s*[[(][^\\])]*[\\])]\\s*',
+  '(?:#|\\bno\\.?\\s*)?\\b\\d+\\b'
+]
+
+// Key of the plain title grouping, which import history and subscriptions also record
+export function groupKeyForSummary(summary: string): string {
+  return (summary.trim() || '(no title)').toLocaleLowerCase()
+}
+
+function compilePatterns(patterns: string[]): RegExp[] {
+  return patterns
+    .filter((pattern) => pattern.trim() !== '')
+    .map((pattern) => {
+      try {
+        return new RegExp(pattern, 'gi')
+      } catch (error) {
+        throw new Error(
+          `Invalid pattern /${pattern}/: ${error instanceof Error ? error.message : error}`
+        )
+      }
+    })
+}
+
+function normalizeTitle(summary: string, patterns: RegExp[]): string {
+  const stripped = patterns
+    .reduce((title, pattern) => title.replace(pattern, ' '), summary)
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\p{P}]+|[\s\p{P}]+$/gu, '')
+  // A title made only of stripped parts keeps its original wording
+  return stripped || summary.trim()
+}
+
+function labeled(value: string, fallback: string): EventGroupAssignment {
+  const label = value.trim() || fallback
+  return { key: label.toLocaleLowerCase(), label }
+}
+
+/**
+ * Assigns every event to a review group under the chosen strategy. Returns one
+ * entry per event, in the same order; events sharing a key form one group.
+ */
+export function assignEventGroups(
+  events: ParsedIcsEvent[],
+  strategy: GroupingStrategy
+): EventGroupAssignment[] {
+  switch (strategy.kind) {
+    case 'title':
+      return events.map((event) => ({
+        key: groupKeyForSummary(event.summary),
+        label: event.summary.trim() || '(no title)'
+      }))
+    case 'normalizedTitle': {
+      const patterns = compilePatterns(strategy.stripPatterns)
+      return events.map((event) => labeled(normalizeTitle(event.summary, patterns), '(no title)'))
+    }
+    case 'series': {
+      // Moved or renamed instances share their series' UID, so label with the most common title
+      const titles = new Map<string, Map<string, number>>()
+      for (const event of events) {
+        if (!event.uid) continue
+        const counts = titles.get(event.uid) ?? new Map<string, number>()
+        const title = event.summary.trim() || '(no title)'
+        counts.set(title, (counts.get(title) ?? 0) + 1)
+        titles.set(event.uid, counts)
+      }
+
+      return events.map((event) => {
+        if (!event.uid) return labeled(event.summary, '(no title)')
+        const counts = Array.from(titles.get(event.uid) ?? [])
+        const [label] = counts.reduce((best, entry) => (entry[1] > best[1] ? entry : best))
+        return { key: `uid:${event.uid}`, label }
+      })
+    }
+    case 'location':
+      return events.map((event) => labeled(event.location, '(no location)'))
+    case 'category':
+      return events.map((event) => labeled(event.categories[0] ?? '', '(no category)'))
+    case 'organizer':
+      return events.map((event) =>
+        labeled(event.organizer ? participantLabel(event.organizer) : '', '(no organizer)')
+      )
+  }
+}
@@ -0,0 +1,301 @@
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import type { EventAlarm } from './alarms'
+import type { EventParticipant } from './eventMetadata'
+import type { ParsedIcsEvent } from './importIcs'
+import {
+  wallTimeInZone,
+  wallTimeToDate,
+  zoneOffsetMinutes,
+  zoneTransitions,
+  type WallTime
+} from './timezone'
+
+const PRODUCT_ID = '-//CustomCalendar//CustomCal 0.0.1//EN'
+const MAX_LINE_OCTETS = 75
+
+type Observance = {
+  onset: WallTime
+  offsetFromMinutes: number
+  offsetToMinutes: number
+}
+
+function pad(value: number, width = 2): string {
+  return String(value).padStart(width, '0')
+}
+
+function formatDate([y, mo, d]: [number, number, number]): string {
+  return `${pad(y, 4)}${pad(mo)}${pad(d)}`
+}
+
+function formatWallTime(wall: WallTime): string {
+  return `${formatDate([wall[0], wall[1], wall[2]])}T${pad(wall[3])}${pad(wall[4])}${pad(wall[5])}`
+}
+
+function formatUtc(ms: number): string {
+  return `${formatWallTime(wallTimeInZone(new Date(ms), 'UTC'))}Z`
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+'
+  const abs = Math.abs(minutes)
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes === 0) return 'PT0S'
+  const abs = Math.abs(minutes)
+  const days = Math.floor(abs / 1440)
+  const hours = Math.floor((abs % 1440) / 60)
+  const time = `${hours ? `${hours}H` : ''}${abs % 60 ? `${abs % 60}M` : ''}`
+  return `${minutes < 0 ? '-' : ''}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+}
+
+// Parameter values containing separators must be quoted, and cannot contain DQUOTE at all
+function paramValue(value: string): string {
+  const clean = value.replace(/"/g, "'")
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean
+}
+
+// RFC 5545 3.1: fold at 75 octets with CRLF + space, never inside a UTF-8 sequence
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8')
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+// Events without a UID get one derived from their content, so repeated exports match up
+export function eventUid(event: ParsedIcsEvent): string {
+  if (event.uid) return event.uid
+  const hash = createHash('sha1')
+    .update(JSON.stringify([event.summary, event.startMs, event.endMs]))
+    .digest('hex')
+  return `${hash.slice(0, 24)}@customcal`
+}
+
+function timeProperty(
+  name: 'DTSTART' | 'DTEND',
+  event: ParsedIcsEvent,
+  wall: WallTime,
+  ms: number,
+  date: [number, number, number] | null
+): string {
+  // Only DATE-sourced all-day events become DATE values; midnight-to-midnight
+  // zoned events keep their zone and are recognised as all-day again on import
+  if (event.isAllDay && event.timeKind === 'floating' && date) {
+    return `${name};VALUE=DATE:${formatDate(date)}`
+  }
+
+  switch (event.timeKind) {
+    case 'floating':
+      return `${name}:${formatWallTime(wall)}`
+    case 'utc':
+      return `${name}:${formatUtc(ms)}`
+    case 'zoned':
+      return `${name};TZID=${paramValue(event.tzid ?? 'UTC')}:${formatWallTime(wall)}`
+  }
+}
+
+function recurrenceIdProperty(recurrenceId: string): string {
+  const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(recurrenceId)
+  if (date) return `RECURRENCE-ID;VALUE=DATE:${date[1]}${date[2]}${date[3]}`
+  return `RECURRENCE-ID:${formatUtc(Date.parse(recurrenceId))}`
+}
+
+// A cal-address cannot be empty, so a participant known only by name is left out
+function participantLines(
+  name: 'ORGANIZER' | 'ATTENDEE',
+  participant: EventParticipant | null
+): string[] {
+  if (!participant?.email) return []
+  const params = [
+    participant.name ? `;CN=${paramValue(participant.name)}` : '',
+    participant.status ? `;PARTSTAT=${participant.status.toUpperCase()}` : ''
+  ].join('')
+  return [`${name}${params}:mailto:${participant.email}`]
+}
+
+function alarmLines(alarm: EventAlarm, summary: string): string[] {
+  const trigger =
+    alarm.kind === 'absolute'
+      ? `TRIGGER;VALUE=DATE-TIME:${formatUtc(alarm.atMs)}`
+      : `TRIGGER${alarm.related === 'end' ? ';RELATED=END' : ''}:${formatDuration(alarm.minutes)}`
+  return [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    trigger,
+    `DESCRIPTION:${escapeText(summary)}`,
+    'END:VALARM'
+  ]
+}
+
+function eventLines(event: ParsedIcsEvent, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${eventUid(event)}`, `DTSTAMP:${stamp}`]
+  if (event.recurrenceId) lines.push(recurrenceIdProperty(event.recurrenceId))
+  lines.push(
+    timeProperty('DTSTART', event, event.startWall, event.startMs, event.startYMD),
+    timeProperty('DTEND', event, event.endWall, event.endMs, event.endYMD),
+    `SUMMARY:${escapeText(event.summary)}`
+  )
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`)
+  }
+  if (event.url) lines.push(`URL:${event.url}`)
+  if (event.status) lines.push(`STATUS:${event.status.toUpperCase()}`)
+  lines.push(...participantLines('ORGANIZER', event.organizer))
+  for (const attendee of event.attendees) {
+    lines.push(...participantLines('ATTENDEE', attendee))
+  }
+  if (event.transparency === 'transparent') lines.push('TRANSP:TRANSPARENT')
+  if (event.sequence > 0) lines.push(`SEQUENCE:${event.sequence}`)
+  if (event.lastModifiedMs !== null) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModifiedMs)}`)
+  for (const alarm of event.alarms) {
+    lines.push(...alarmLines(alarm, event.summary))
+  }
+  lines.push('END:VEVENT')
+  return lines
+}
+
+// Offsets of a known zone over the span the events cover
+function ianaObservances(timeZone: string, events: ParsedIcsEvent[]): Observance[] {
+  const earliest = events.reduce((min, event) => Math.min(min, event.startMs), Infinity)
+  const latest = events.reduce((max, event) => Math.max(max, event.endMs), -Infinity)
+  const fromMs = Date.UTC(new Date(earliest).getUTCFullYear(), 0, 1)
+  const initialOffset = zoneOffsetMinutes(fromMs, timeZone)
+
+  return [
+    {
+      onset: wallTimeInZone(new Date(fromMs), timeZone),
+      offsetFromMinutes: initialOffset,
+      offsetToMinutes: initialOffset
+    },
+    ...zoneTransitions(timeZone, fromMs, latest).map((transition) => ({
+      onset: wallTimeInZone(
+        new Date(transition.atMs + transition.offsetFromMinutes * 60000),
+        'UTC'
+      ),
+      offsetFromMinutes: transition.offsetFromMinutes,
+      offsetToMinutes: transition.offsetToMinutes
+    }))
+  ]
+}
+
+// Zones the host cannot resolve only survive as the offsets their events were
+// read with, so those offsets become one-off observances
+function observedObservances(events: ParsedIcsEvent[]): Observance[] {
+  const points = events
+    .flatMap((event) => [
+      { wall: event.startWall, ms: event.startMs },
+      { wall: event.endWall, ms: event.endMs }
+    ])
+    .sort((a, b) => a.ms - b.ms)
+
+  const observances: Observance[] = []
+  for (const { wall, ms } of points) {
+    const offset = Math.round((wallTimeToDate(wall, 'UTC').getTime() - ms) / 60000)
+    const last = observances.at(-1)
+    // A new onset every year keeps each offset reachable by the importer's lookup
+    if (last && last.offsetToMinutes === offset && last.onset[0] === wall[0]) continue
+
+    observances.push({
+      onset: wall,
+      offsetFromMinutes: last ? last.offsetToMinutes : offset,
+      offsetToMinutes: offset
+    })
+  }
+  return observances
+}
+
+function timeZoneLines(tzid: string, observances: Observance[]): string[] {
+  const standardOffset = Math.min(...observances.map((item) => item.offsetToMinutes))
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${tzid}`]
+
+  for (const observance of observances) {
+    const kind = observance.offsetToMinutes > standardOffset ? 'DAYLIGHT' : 'STANDARD'
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatWallTime(observance.onset)}`,
+      `TZOFFSETFROM:${formatOffset(observance.offsetFromMinutes)}`,
+      `TZOFFSETTO:${formatOffset(observance.offsetToMinutes)}`,
+      `END:${kind}`
+    )
+  }
+
+  lines.push('END:VTIMEZONE')
+  return lines
+}
+
+/**
+ * Writes events back out as an RFC 5545 calendar. Zoned events carry their
+ * TZID with a matching VTIMEZONE, so the file re-imports to the same events.
+ */
+export function serializeIcsEvents(
+  events: ParsedIcsEvent[],
+  opts: { calendarName?: string } = {}
+): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN']
+  if (opts.calendarName) lines.push(`X-WR-CALNAME:${escapeText(opts.calendarName)}`)
+
+  const zoned = new Map<string, ParsedIcsEvent[]>()
+  for (const event of events) {
+    if (event.timeKind !== 'zoned' || !event.tzid) continue
+    const zoneEvents = zoned.get(event.tzid)
+    if (zoneEvents) zoneEvents.push(event)
+    else zoned.set(event.tzid, [event])
+  }
+  for (const [tzid, zoneEvents] of zoned) {
+    const timeZone = zoneEvents[0].timeZone
+    lines.push(
+      ...timeZoneLines(
+        tzid,
+        timeZone ? ianaObservances(timeZone, zoneEvents) : observedObservances(zoneEvents)
+      )
+    )
+  }
+
+  const stamp = formatUtc(Date.now())
+  for (const event of events) {
+    lines.push(...eventLines(event, stamp))
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export async function writeIcsFile(opts: {
+  filePath: string
+  calendarName: string
+  events: ParsedIcsEvent[]
+}): Promise<{ filePath: string; exported: number }> {
+  await fs.writeFile(
+    opts.filePath,
+    serializeIcsEvents(opts.events, { calendarName: opts.calendarName }),
+    'utf8'
+  )
+  return { filePath: opts.filePath, exported: opts.events.length }
+}
@@ -0,0 +1,131 @@
+import ical from 'node-ical'
+import { createHash } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { AppError } from './appErrors'
+import { credentialHeaders, getFeedCredentials } from './feedCredentials'
+import { FeedFetchError, fetchFeed } from './feedFetch'
+import { readJsonStore, writeJsonStore } from './jsonStore'
+
+export type IcsSource =
+  | { kind: 'url'; url: string }
+  | { kind: 'file'; path: string }
+  | { kind: 'text'; text: string }
+
+function normalizeIcsUrl(url: string): string {
+  return url.replace(/^webcal:\/\//i, 'https://')
+}
+
+// The source is named as it reads mid-sentence, e.g. "the pasted text"
+async function parseIcsText(text: string, source: string): Promise<Record<string, unknown>> {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new AppError({ code: 'parse', source }, `Could not find a calendar in ${source}.`)
+  }
+  try {
+    return (await ical.async.parseICS(text)) as Record<string, unknown>
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new AppError({ code: 'parse', source }, `Could not parse ${source}: ${reason}`)
+  }
+}
+
+// Last body of a feed with the validators it came with, for conditional GETs
+type CachedFeed = {
+  url: string
+  etag: string | null
+  lastModified: string | null
+  text: string
+}
+
+function cacheFile(url: string): string {
+  return `feed-cache/${createHash('sha256').update(url).digest('hex').slice(0, 32)}.json`
+}
+
+async function fetchIcsText(url: string): Promise<string> {
+  const cached = await readJsonStore<CachedFeed | null>(cacheFile(url), null)
+  const usable = cached?.url === url ? cached : null
+  const response = await fetchFeed({
+    url,
+    headers: credentialHeaders(await getFeedCredentials(url)),
+    etag: usable?.etag,
+    lastModified: usable?.lastModified
+  })
+
+  if (response.kind === 'notModified') {
+    if (usable) return usable.text
+    throw new FeedFetchError(
+      'httpStatus',
+      'The server reported no changes for a feed never fetched.',
+      304
+    )
+  }
+
+  if (response.etag || response.lastModified) {
+    const entry: CachedFeed = {
+      url,
+      etag: response.etag,
+      lastModified: response.lastModified,
+      text: response.text
+    }
+    await writeJsonStore(cacheFile(url), entry)
+  }
+  return response.text
+}
+
+// Stable name for where a feed came from, used to recognise events imported from it before
+export function feedIdentity(source: IcsSource): string {
+  switch (source.kind) {
+    case 'url':
+      return normalizeIcsUrl(source.url.trim())
+    case 'file':
+      return `file://${path.resolve(source.path)}`
+    case 'text':
+      return 'text:pasted'
+  }
+}
+
+// Settings key for feeds previewed together; order does not matter
+export function mergedFeedIdentity(feeds: string[]): string {
+  const unique = [...new Set(feeds)].sort()
+  return unique.length === 1 ? unique[0] : `merged:${unique.join('\n')}`
+}
+
+async function readIcsFile(filePath: string): Promise<string> {
+  const name = path.basename(filePath)
+  try {
+    return await fs.readFile(filePath, 'utf8')
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code
+    if (code === 'ENOENT') {
+      throw new AppError({ code: 'file', name, reason: 'notFound' }, `Could not find ${name}.`)
+    }
+    if (code === 'EACCES' || code === 'EPERM') {
+      throw new AppError(
+        { code: 'file', name, reason: 'denied' },
+        `CustomCal is not allowed to read ${name}.`
+      )
+    }
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new AppError(
+      { code: 'file', name, reason: 'unreadable' },
+      `Could not read ${name}: ${reason}`
+    )
+  }
+}
+
+/**
+ * Reads a feed from wherever it came from and hands back node-ical's parsed
+ * component map, so every source goes through the same normalization.
+ */
+export async function loadIcsData(source: IcsSource): Promise<Record<string, unknown>> {
+  switch (source.kind) {
+    case 'url': {
+      const url = normalizeIcsUrl(source.url.trim())
+      return await parseIcsText(await fetchIcsText(url), `the feed at ${url}`)
+    }
+    case 'file':
+      return await parseIcsText(await readIcsFile(source.path), path.basename(source.path))
+    case 'text':
+      return await parseIcsText(source.text, 'the pasted text')
+  }
+}
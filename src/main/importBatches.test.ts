@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { writeInBatches } from './importBatches'
+import type { ParsedIcsEvent } from './importIcs'
+import { createMemoryTarget, type MemoryCalendarTarget } from './targets/memoryTarget'
+
+const calendar = { name: 'Batches', sourceId: null, colorHex: '#0A84FF' }
+
+// A memory target whose calendar will not delete the event ids in `kept`
+function keepingTarget(kept: Set<string>): MemoryCalendarTarget {
+  const target = createMemoryTarget()
+  return {
+    ...target,
+    async writeEvents(ref, changes) {
+      const result = await target.writeEvents(ref, {
+        ...changes,
+        delete: changes.delete.filter((eventId) => !kept.has(eventId))
+      })
+      return {
+        ...result,
+        deletedIds: changes.delete.map((eventId) => (kept.has(eventId) ? '' : eventId))
+      }
+    }
+  }
+}
+
+describe('writeInBatches', () => {
+  it('records only the deletions the target confirmed and counts the rest as failed', async () => {
+    const kept = new Set<string>()
+    const target = keepingTarget(kept)
+    const event = { summary: 'Seeded', startMs: 0, endMs: 1 } as ParsedIcsEvent
+    const [first, second, third] = (
+      await target.writeEvents(calendar, { create: [event, event, event], update: [], delete: [] })
+    ).createdIds
+    kept.add(second)
+
+    const outcome = await writeInBatches(target, calendar, [
+      { kind: 'remove', eventId: first },
+      { kind: 'remove', eventId: second },
+      { kind: 'remove', eventId: third }
+    ])
+
+    expect(outcome).toMatchObject({ removed: 2, failed: 1, remaining: 0, stopped: null })
+    expect(outcome.deleted).toEqual([first, third])
+    expect(target.eventsIn(calendar.name).map(({ eventId }) => eventId)).toEqual([second])
+  })
+})
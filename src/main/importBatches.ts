@@ -0,0 +1,148 @@
+import { AppError, asAppError, type AppErrorDetail } from './appErrors'
+import type { ParsedIcsEvent } from './importIcs'
+import type { CalendarRef, CalendarTarget, EventChangeResult } from './targets'
+
+// One change an import makes to the calendar
+export type ImportStep =
+  | { kind: 'create'; event: ParsedIcsEvent }
+  | { kind: 'update'; eventId: string; event: ParsedIcsEvent }
+  // The old copy is deleted in the same batch the new one is written in
+  | { kind: 'replace'; eventId: string; event: ParsedIcsEvent }
+  | { kind: 'remove'; eventId: string }
+
+export type ImportProgress = {
+  total: number
+  created: number
+  updated: number
+  removed: number
+  failed: number
+  remaining: number
+}
+
+export type ImportStop = {
+  reason: 'cancelled' | 'failed'
+  message: string
+  // A partialWrite for failed imports, with its suggested fix; null when cancelled
+  detail: AppErrorDetail | null
+  fix: string | null
+}
+
+export type BatchOutcome = {
+  created: { event: ParsedIcsEvent; eventId: string }[]
+  updated: { event: ParsedIcsEvent; eventId: string }[]
+  // Every event id the target confirmed gone, by removals and replacements alike
+  deleted: string[]
+  removed: number
+  failed: number
+  remaining: number
+  // Why the import ended before its last batch, or null when it ran to the end
+  stopped: ImportStop | null
+}
+
+// Small enough for progress to move and a cancel to land quickly, large enough
+// that each native run's start-up cost is shared by many events
+export const IMPORT_BATCH_SIZE = 100
+
+/**
+ * Applies the steps in batches, reporting progress after each one. A cancel
+ * takes effect between batches, and a batch that fails stops the import; in
+ * both cases the outcome covers exactly the batches that were written.
+ */
+export async function writeInBatches(
+  target: CalendarTarget,
+  calendar: CalendarRef,
+  steps: ImportStep[],
+  opts: { signal?: AbortSignal; onProgress?: (progress: ImportProgress) => void } = {}
+): Promise<BatchOutcome> {
+  const outcome: BatchOutcome = {
+    created: [],
+    updated: [],
+    deleted: [],
+    removed: 0,
+    failed: 0,
+    remaining: steps.length,
+    stopped: null
+  }
+
+  const report = (): void =>
+    opts.onProgress?.({
+      total: steps.length,
+      created: outcome.created.length,
+      updated: outcome.updated.length,
+      removed: outcome.removed,
+      failed: outcome.failed,
+      remaining: outcome.remaining
+    })
+  report()
+
+  for (let start = 0; start < steps.length; start += IMPORT_BATCH_SIZE) {
+    if (opts.signal?.aborted) {
+      outcome.stopped = {
+        reason: 'cancelled',
+        message: 'The import was cancelled.',
+        detail: null,
+        fix: null
+      }
+      break
+    }
+
+    const batch = steps.slice(start, start + IMPORT_BATCH_SIZE)
+    const creates = batch.filter((step) => step.kind === 'create' || step.kind === 'replace')
+    const updates = batch.filter((step) => step.kind === 'update')
+    const deletions = batch.flatMap((step) =>
+      step.kind === 'remove' || step.kind === 'replace' ? [step.eventId] : []
+    )
+
+    let result: EventChangeResult
+    try {
+      result = await target.writeEvents(calendar, {
+        create: creates.map((step) => step.event),
+        update: updates.map((step) => ({ eventId: step.eventId, event: step.event })),
+        delete: deletions
+      })
+    } catch (error) {
+      const failure = new AppError(
+        {
+          code: 'partialWrite',
+          created: outcome.created.length,
+          updated: outcome.updated.length,
+          failed: outcome.failed,
+          remaining: outcome.remaining,
+          cause: asAppError(error)?.detail ?? null
+        },
+        error instanceof Error ? error.message : String(error)
+      )
+      outcome.stopped = {
+        reason: 'failed',
+        message: failure.message,
+        detail: failure.detail,
+        fix: failure.fix
+      }
+      break
+    }
+
+    creates.forEach((step, index) => {
+      const eventId = result.createdIds[index]
+      if (eventId) outcome.created.push({ event: step.event, eventId })
+      else outcome.failed++
+    })
+    updates.forEach((step, index) => {
+      const eventId = result.updatedIds[index]
+      if (eventId) outcome.updated.push({ event: step.event, eventId })
+      else outcome.failed++
+    })
+    const deleted = new Set<string>()
+    deletions.forEach((eventId, index) => {
+      if (result.deletedIds[index]) deleted.add(eventId)
+      else outcome.failed++
+    })
+    outcome.deleted.push(...deleted)
+    outcome.removed += batch.filter(
+      (step) => step.kind === 'remove' && deleted.has(step.eventId)
+    ).length
+    outcome.remaining -= batch.length
+    report()
+  }
+
+  return outcome
+}
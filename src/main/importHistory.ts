@@ -0,0 +1,137 @@
+import { randomUUID } from 'node:crypto'
+import { groupKeyForSummary } from './grouping'
+import type { ParsedIcsEvent } from './importIcs'
+import { readJsonStore, writeJsonStore } from './jsonStore'
+import type { CalendarContainer } from './targets'
+
+export type ImportedEventRecord = {
+  eventId: string
+  summary: string
+  groupKey: string
+  startMs: number
+  uid: string | null
+  recurrenceId: string | null
+  removedAt: number | null
+}
+
+export type ImportRun = {
+  id: string
+  feed: string | null
+  calendarName: string
+  container: CalendarContainer
+  // The account the calendar is in, or null for the target's default one
+  sourceId: string | null
+  importedAt: number
+  updated: number
+  skipped: number
+  events: ImportedEventRecord[]
+  revertedAt: number | null
+}
+
+// Runs recorded before accounts could be picked have no sourceId; they went to the default one
+type StoredImportRun = Omit<ImportRun, 'sourceId'> & { sourceId?: string | null }
+
+const STORE_FILE = 'import-history.json'
+
+let runs: ImportRun[] | null = null
+
+async function loadHistory(): Promise<ImportRun[]> {
+  if (runs) return runs
+
+  const stored = await readJsonStore<{ runs?: StoredImportRun[] }>(STORE_FILE, {})
+  runs = (Array.isArray(stored.runs) ? stored.runs : []).map((run) => ({
+    ...run,
+    sourceId: run.sourceId ?? null
+  }))
+  return runs
+}
+
+async function saveHistory(): Promise<void> {
+  if (!runs) return
+  await writeJsonStore(STORE_FILE, { runs })
+}
+
+function copyRun(run: ImportRun): ImportRun {
+  return { ...run, events: run.events.map((event) => ({ ...event })) }
+}
+
+export async function listImportRuns(): Promise<ImportRun[]> {
+  return (await loadHistory()).map(copyRun).sort((a, b) => b.importedAt - a.importedAt)
+}
+
+export async function findImportRun(id: string): Promise<ImportRun> {
+  const run = (await loadHistory()).find((item) => item.id === id)
+  if (!run) {
+    throw new Error('Import run not found.')
+  }
+  return copyRun(run)
+}
+
+export async function recordImportRun(opts: {
+  feed: string | null
+  calendarName: string
+  container: CalendarContainer
+  sourceId: string | null
+  created: { event: ParsedIcsEvent; eventId: string }[]
+  updated: number
+  skipped: number
+}): Promise<void> {
+  if (opts.created.length === 0) return
+
+  const history = await loadHistory()
+  history.push({
+    id: randomUUID(),
+    feed: opts.feed,
+    calendarName: opts.calendarName,
+    container: opts.container,
+    sourceId: opts.sourceId,
+    importedAt: Date.now(),
+    updated: opts.updated,
+    skipped: opts.skipped,
+    events: opts.created.map(({ event, eventId }) => ({
+      eventId,
+      summary: event.summary,
+      groupKey: groupKeyForSummary(event.summary),
+      startMs: event.startMs,
+      uid: event.uid,
+      recurrenceId: event.recurrenceId,
+      removedAt: null
+    })),
+    revertedAt: null
+  })
+  await saveHistory()
+}
+
+// Events still on the calendar in `calendarName` whose title falls in `groupKey`, across all
+// runs into that calendar of that account
+export async function findImportedGroupEvents(opts: {
+  calendarName: string
+  container: CalendarContainer
+  sourceId: string | null
+  groupKey: string
+}): Promise<string[]> {
+  return (await loadHistory())
+    .filter(
+      (run) =>
+        run.calendarName === opts.calendarName &&
+        run.container === opts.container &&
+        (run.sourceId ?? null) === opts.sourceId
+    )
+    .flatMap((run) => run.events)
+    .filter((event) => event.removedAt === null && event.groupKey === opts.groupKey)
+    .map((event) => event.eventId)
+}
+
+export async function markEventsRemoved(eventIds: string[], revertedRunId?: string): Promise<void> {
+  const history = await loadHistory()
+  const removed = new Set(eventIds)
+  const now = Date.now()
+
+  for (const run of history) {
+    for (const event of run.events) {
+      if (event.removedAt === null && removed.has(event.eventId)) event.removedAt = now
+    }
+    if (run.id === revertedRunId) run.revertedAt = now
+  }
+  await saveHistory()
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it, vi } from 'vitest'
+import { groupKeyForSummary } from './grouping'
+import { listImportRuns } from './importHistory'
+import { findExistingDuplicates, importIcsToCalendar, previewIcsEvents } from './importIcs'
+import { removeImportedGroup, revertImportRun } from './rollback'
+import { memoryTarget } from './targets/memoryTarget'
+
+vi.mock('electron', async () => {
+  const { mkdtempSync } = await import('node:fs')
+  const { tmpdir } = await import('node:os')
+  const path = await import('node:path')
+  const userData = mkdtempSync(path.join(tmpdir(), 'customcal-test-'))
+  return { app: { getPath: () => userData } }
+})
+
+type TestEvent = { uid: string; summary: string; start: string; end: string }
+
+function calendarText(events: TestEvent[]): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//CustomCal tests//EN']
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTART:${event.start}`,
+      `DTEND:${event.end}`,
+      `SUMMARY:${event.summary}`,
+      'END:VEVENT'
+    )
+  }
+  lines.push('END:VCALENDAR')
+  return lines.join('\r\n')
+}
+
+async function prepared(
+  events: TestEvent[]
+): Promise<Awaited<ReturnType<typeof previewIcsEvents>>> {
+  return await previewIcsEvents({
+    sources: [{ kind: 'text', text: calendarText(events) }],
+    window: { startMs: Date.UTC(2026, 0, 1), endMs: Date.UTC(2027, 0, 1) }
+  })
+}
+
+async function importInto(
+  calendarName: string,
+  events: TestEvent[],
+  opts: Partial<Parameters<typeof importIcsToCalendar>[0]> = {}
+): Promise<Awaited<ReturnType<typeof importIcsToCalendar>>> {
+  const preview = await prepared(events)
+  return await importIcsToCalendar({
+    targetCalendarName: calendarName,
+    container: 'memory',
+    events: preview.prepared,
+    calendarColorHex: '#0A84FF',
+    feed: preview.feed,
+    ...opts
+  })
+}
+
+function summaries(calendarName: string): string[] {
+  return memoryTarget
+    .eventsIn(calendarName)
+    .map(({ event }) => event.summary)
+    .sort()
+}
+
+const standup: TestEvent = {
+  uid: 'standup@test',
+  summary: 'Standup',
+  start: '20260302T090000Z',
+  end: '20260302T091500Z'
+}
+const review: TestEvent = {
+  uid: 'review@test',
+  summary: 'Review',
+  start: '20260303T140000Z',
+  end: '20260303T150000Z'
+}
+
+describe('importing into the memory target', () => {
+  it('creates the calendar and its events', async () => {
+    const result = await importInto('Created', [standup, review])
+
+    expect(result).toMatchObject({ created: 2, updated: 0, skipped: 0, failed: 0, stopped: null })
+    expect(summaries('Created')).toEqual(['Review', 'Standup'])
+    expect((await memoryTarget.listCalendars()).map((calendar) => calendar.name)).toContain(
+      'Created'
+    )
+  })
+
+  it('skips events imported before when nothing changed', async () => {
+    await importInto('Skipped', [standup, review])
+    const again = await importInto('Skipped', [standup, review])
+
+    expect(again).toMatchObject({ created: 0, updated: 0, skipped: 2 })
+    expect(memoryTarget.eventsIn('Skipped')).toHaveLength(2)
+  })
+
+  it('updates changed events in place and keeps their ids', async () => {
+    await importInto('Updated', [standup, review])
+    const before = memoryTarget.eventsIn('Updated').map(({ eventId }) => eventId)
+
+    const result = await importInto('Updated', [{ ...standup, summary: 'Standup (moved)' }, review])
+
+    expect(result).toMatchObject({ created: 0, updated: 1, skipped: 1 })
+    expect(summaries('Updated')).toEqual(['Review', 'Standup (moved)'])
+    expect(memoryTarget.eventsIn('Updated').map(({ eventId }) => eventId)).toEqual(before)
+  })
+
+  it('replaces changed events with a new copy when asked to', async () => {
+    await importInto('Replaced', [standup])
+    const [before] = memoryTarget.eventsIn('Replaced')
+
+    const result = await importInto('Replaced', [{ ...standup, summary: 'Standup (new)' }], {
+      existing: 'replace'
+    })
+
+    expect(result).toMatchObject({ created: 1, updated: 0 })
+    const after = memoryTarget.eventsIn('Replaced')
+    expect(after).toHaveLength(1)
+    expect(after[0].eventId).not.toBe(before.eventId)
+    expect(after[0].event.summary).toBe('Standup (new)')
+  })
+
+  it('leaves out events that are already in the calendar from elsewhere', async () => {
+    const preview = await prepared([review])
+    const [added] = (
+      await memoryTarget.writeEvents(
+        { name: 'Deduped', sourceId: null, colorHex: '#0A84FF' },
+        { create: preview.prepared, update: [], delete: [] }
+      )
+    ).createdIds
+
+    const matches = await findExistingDuplicates({
+      targetCalendarName: 'Deduped',
+      container: 'memory',
+      events: (await prepared([standup, { ...review, uid: 'other-review@test' }])).prepared
+    })
+    expect(matches).toEqual([null, added])
+
+    const result = await importInto('Deduped', [standup, { ...review, uid: 'other-review@test' }])
+    expect(result).toMatchObject({ created: 1, duplicates: 1 })
+    expect(summaries('Deduped')).toEqual(['Review', 'Standup'])
+  })
+
+  it('treats a calendar of the same name in another account as a new destination', async () => {
+    await importInto('Accounts', [standup])
+    // The memory target has one account, so its copy would otherwise count as a duplicate
+    const work = { sourceId: 'work', duplicates: 'import' } as const
+
+    expect(await importInto('Accounts', [standup], work)).toMatchObject({ created: 1, skipped: 0 })
+    expect(await importInto('Accounts', [standup], work)).toMatchObject({ created: 0, skipped: 1 })
+
+    const runs = (await listImportRuns()).filter((run) => run.calendarName === 'Accounts')
+    expect(runs.map((run) => run.sourceId).sort()).toEqual([null, 'work'].sort())
+  })
+
+  it('removes a group only from the account it was imported into', async () => {
+    await importInto('Grouped', [standup])
+    await importInto('Grouped', [standup], { sourceId: 'work', duplicates: 'import' })
+
+    const result = await removeImportedGroup({
+      calendarName: 'Grouped',
+      container: 'memory',
+      sourceId: 'work',
+      groupKey: groupKeyForSummary('Standup')
+    })
+
+    expect(result).toEqual({ deleted: 1 })
+    const runs = (await listImportRuns()).filter((run) => run.calendarName === 'Grouped')
+    const removed = Object.fromEntries(
+      runs.map((run) => [run.sourceId ?? 'default', run.events[0].removedAt !== null])
+    )
+    expect(removed).toEqual({ default: false, work: true })
+    expect(memoryTarget.eventsIn('Grouped')).toHaveLength(1)
+  })
+
+  it('reverts a run and forgets it in the ledger, so the next import creates again', async () => {
+    await importInto('Reverted', [standup, review])
+    const run = (await listImportRuns()).find((item) => item.calendarName === 'Reverted')
+    expect(run?.events).toHaveLength(2)
+
+    expect(await revertImportRun({ id: run!.id })).toEqual({ deleted: 2 })
+    expect(memoryTarget.eventsIn('Reverted')).toEqual([])
+
+    const again = await importInto('Reverted', [standup, review])
+    expect(again).toMatchObject({ created: 2, skipped: 0 })
+    expect(summaries('Reverted')).toEqual(['Review', 'Standup'])
+  })
+})
+
+describe('reading calendar files', () => {
+  it('explains a file that is not there', async () => {
+    const missing = previewIcsEvents({ sources: [{ kind: 'file', path: '/nonexistent/cal.ics' }] })
+
+    await expect(missing).rejects.toMatchObject({
+      message: 'Could not find cal.ics.',
+      detail: { code: 'file', name: 'cal.ics', reason: 'notFound' }
+    })
+  })
+})
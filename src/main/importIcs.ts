@@ -1,11 +1,41 @@
-import ical from 'node-ical'
-import { execFile } from 'node:child_process'
-import { promises as fs } from 'node:fs'
-import os from 'node:os'
-import path from 'node:path'
-import { promisify } from 'node:util'
-
-const execFileAsync = promisify(execFile)
+import {
+  applyAlertSettings,
+  parseSourceAlarms,
+  type AlertSettings,
+  type EventAlarm
+} from './alarms'
+import { parseEventMetadata, type EventParticipant, type EventStatus } from './eventMetadata'
+import { getFeedSettings } from './feedSettings'
+import { evaluateFilterRules, type FilterDecision, type FilterRuleSet } from './filterRules'
+import { assignEventGroups, type EventGroupAssignment, type GroupingStrategy } from './grouping'
+import { eventSpan, findCalendarDuplicates, findCrossFeedDuplicates } from './dedupe'
+import { feedIdentity, loadIcsData, mergedFeedIdentity, type IcsSource } from './icsSource'
+import {
+  writeInBatches,
+  type ImportProgress,
+  type ImportStep,
+  type ImportStop
+} from './importBatches'
+import { markEventsRemoved, recordImportRun } from './importHistory'
+import {
+  eventFingerprint,
+  findLedgerEntry,
+  forgetLedgerEvents,
+  recordLedgerEntries,
+  type LedgerEntry
+} from './importLedger'
+import { applyRewriteRules, type RewriteRule } from './rewriteRules'
+import { defaultRecurrenceWindow, expandOccurrences, type RecurrenceWindow } from './recurrence'
+import { calendarTarget, type CalendarContainer } from './targets'
+import {
+  collectVTimeZones,
+  resolveIcsTime,
+  shiftWallTime,
+  wallTimeDifferenceMs,
+  type IcsTimeKind,
+  type ResolvedIcsTime,
+  type WallTime
+} from './timezone'
 
 export type ParsedIcsEvent = {
   summary: string
@@ -16,14 +46,33 @@ export type ParsedIcsEvent = {
   endMs: number
   startYMD: [number, number, number] | null
   endYMD: [number, number, number] | null
+  timeKind: IcsTimeKind
+  tzid: string | null
+  timeZone: string | null
+  startWall: WallTime
+  endWall: WallTime
+  uid: string | null
+  recurrenceId: string | null
+  categories: string[]
+  alarms: EventAlarm[]
+  url: string | null
+  status: EventStatus | null
+  organizer: EventParticipant | null
+  attendees: EventParticipant[]
+  transparency: 'opaque' | 'transparent'
+  sequence: number
+  lastModifiedMs: number | null
+  // Identity of the feed the event was read from, see feedIdentity
+  feed: string
 }
 
-type ImportPayload = {
-  calendarName: string
-  events: ParsedIcsEvent[]
-  container: 'local' | 'icloud'
-  calendarColorHex: string
-}
+export type ExistingEventMode = 'skip' | 'update' | 'replace'
+
+// What happens to an imported event once the feed marks it STATUS:CANCELLED
+export type CancelledEventMode = 'remove' | 'mark'
+
+// Whether new events that look like ones already in the calendar are written anyway
+export type DuplicateEventMode = 'skip' | 'import'
 
 type IcsSourceEvent = {
   type?: string
@@ -33,15 +82,21 @@ type IcsSourceEvent = {
   summary?: unknown
   description?: unknown
   location?: unknown
-}
-
-type ExecResult = {
-  stdout: string
-  stderr: string
-}
-
-function normalizeIcsUrl(url: string): string {
-  return url.replace(/^webcal:\/\//i, 'https://')
+  rrule?: unknown
+  rdate?: unknown
+  exdate?: unknown
+  recurrences?: unknown
+  recurrenceid?: unknown
+  uid?: unknown
+  categories?: unknown
+  alarms?: unknown
+  url?: unknown
+  status?: unknown
+  organizer?: unknown
+  attendee?: unknown
+  transparency?: unknown
+  sequence?: unknown
+  lastmodified?: unknown
 }
 
 function normalizeCalendarColorHex(value: string): string {
@@ -52,36 +107,54 @@ function normalizeCalendarColorHex(value: string): string {
   return '#0A84FF'
 }
 
-function ymd(d: Date): [number, number, number] {
-  return [d.getFullYear(), d.getMonth() + 1, d.getDate()]
+function ymd(wall: WallTime): [number, number, number] {
+  return [wall[0], wall[1], wall[2]]
 }
 
-function isAllDayEvent(v: IcsSourceEvent): boolean {
+function isAllDayEvent(
+  v: IcsSourceEvent,
+  start: ResolvedIcsTime | null,
+  end: ResolvedIcsTime | null
+): boolean {
   // node-ical usually marks all-day DTSTART/DTEND as datetype === 'date'
   if (v?.datetype === 'date') return true
 
-  if (!(v?.start instanceof Date)) return false
+  if (!start || !end) return false
 
-  // Heuristic fallback: midnight boundaries + whole-day duration
-  const s: Date = v.start
-  const e: Date | null = v.end instanceof Date ? v.end : null
-
-  if (!e) return false
+  // Heuristic fallback: midnight boundaries + whole-day duration, judged by the
+  // wall clock of the zone the event was written in rather than the host's
+  const s = start.wall
+  const e = end.wall
 
   const atMidnight =
-    s.getHours() === 0 &&
-    s.getMinutes() === 0 &&
-    s.getSeconds() === 0 &&
-    e.getHours() === 0 &&
-    e.getMinutes() === 0 &&
-    e.getSeconds() === 0
-
-  const dur = e.getTime() - s.getTime()
+    s[3] === 0 && s[4] === 0 && s[5] === 0 && e[3] === 0 && e[4] === 0 && e[5] === 0
+
+  const dur = wallTimeDifferenceMs(s, e)
   const oneDay = 24 * 60 * 60 * 1000
 
   return atMidnight && dur >= 0 && dur % oneDay === 0
 }
 
+function formatRecurrenceId(value: unknown): string | null {
+  if (!(value instanceof Date)) return null
+  if ((value as Date & { dateOnly?: boolean }).dateOnly) {
+    const month = String(value.getMonth() + 1).padStart(2, '0')
+    const day = String(value.getDate()).padStart(2, '0')
+    return `${value.getFullYear()}-${month}-${day}`
+  }
+  return value.toISOString()
+}
+
+// Kept in the calendar but visibly struck off, and no longer blocking time
+function markCancelled(event: ParsedIcsEvent): ParsedIcsEvent {
+  const prefix = 'Cancelled: '
+  return {
+    ...event,
+    summary: event.summary.startsWith(prefix) ? event.summary : `${prefix}${event.summary}`,
+    transparency: 'transparent'
+  }
+}
+
 function isIcsSourceEvent(value: unknown): value is IcsSourceEvent {
   if (typeof value !== 'object' || value === null) {
     return false
@@ -89,296 +162,341 @@ function isIcsSourceEvent(value: unknown): value is IcsSourceEvent {
   return (value as IcsSourceEvent).type === 'VEVENT'
 }
 
+// An event counts as imported only into the calendar, account and target it was written to
+function isEntryFor(
+  entry: LedgerEntry | undefined,
+  calendar: { targetCalendarName: string; container: CalendarContainer; sourceId?: string | null }
+): entry is LedgerEntry {
+  return (
+    entry?.container === calendar.container &&
+    entry.sourceId === (calendar.sourceId ?? null) &&
+    entry.calendarName === calendar.targetCalendarName
+  )
+}
+
 export async function importIcsToCalendar(opts: {
   targetCalendarName: string
-  container: 'local' | 'icloud'
+  container: CalendarContainer
+  // Account to import into, from listCalendarSources; the container's usual one when absent
+  sourceId?: string | null
   events: ParsedIcsEvent[]
   calendarColorHex: string
-}): Promise<{ created: number }> {
-  const payload: ImportPayload = {
+  // Shown in the import history; events are matched to earlier imports by their own feed
+  feed?: string
+  existing?: ExistingEventMode
+  cancelled?: CancelledEventMode
+  // Cancelled events that are only reconciled with earlier imports, never created
+  cancelledEvents?: ParsedIcsEvent[]
+  duplicates?: DuplicateEventMode
+  signal?: AbortSignal
+  onProgress?: (progress: ImportProgress) => void
+}): Promise<{
+  created: number
+  updated: number
+  skipped: number
+  removed: number
+  // Skipped because a matching event was already in the calendar
+  duplicates: number
+  // Refused by the calendar one by one; the rest of their batch went in
+  failed: number
+  // Not attempted because the import stopped early
+  remaining: number
+  stopped: ImportStop | null
+  // Events created or updated by this run, in the order they were written
+  written: Pick<ParsedIcsEvent, 'summary' | 'startMs' | 'isAllDay'>[]
+}> {
+  const mode = opts.existing ?? 'update'
+  const cancelledMode = opts.cancelled ?? 'remove'
+  const fresh: ParsedIcsEvent[] = []
+  // Removals and replacements go first, so a stopped import has cleared what it replaces
+  const removals: ImportStep[] = []
+  const changes: ImportStep[] = []
+  let skipped = 0
+
+  async function importedEntry(event: ParsedIcsEvent): Promise<LedgerEntry | undefined> {
+    const entry = event.uid
+      ? await findLedgerEntry(event.feed, event.uid, event.recurrenceId)
+      : undefined
+    return isEntryFor(entry, opts) ? entry : undefined
+  }
+
+  function reconcileCancelled(event: ParsedIcsEvent, entry: LedgerEntry): void {
+    const marked = markCancelled(event)
+    if (cancelledMode === 'remove') {
+      removals.push({ kind: 'remove', eventId: entry.eventId })
+    } else if (entry.fingerprint === eventFingerprint(marked)) {
+      skipped++
+    } else {
+      changes.push({ kind: 'update', eventId: entry.eventId, event: marked })
+    }
+  }
+
+  // Events this app already put in the same calendar are matched through the
+  // ledger instead of being created a second time
+  for (const event of opts.events) {
+    const entry = await importedEntry(event)
+
+    if (!entry) {
+      fresh.push(event)
+    } else if (event.status === 'cancelled') {
+      reconcileCancelled(event, entry)
+    } else if (mode === 'skip' || entry.fingerprint === eventFingerprint(event)) {
+      skipped++
+    } else if (mode === 'update') {
+      changes.push({ kind: 'update', eventId: entry.eventId, event })
+    } else {
+      removals.push({ kind: 'replace', eventId: entry.eventId, event })
+    }
+  }
+
+  for (const event of opts.cancelledEvents ?? []) {
+    const entry = await importedEntry(event)
+    if (entry) reconcileCancelled(event, entry)
+  }
+
+  // Events this app has not written before may still be in the calendar already,
+  // added by hand or by another tool
+  const existing =
+    opts.duplicates === 'import'
+      ? fresh.map(() => null)
+      : await findExistingDuplicates({ ...opts, events: fresh })
+  const duplicates = existing.filter((eventId) => eventId !== null).length
+  for (const [index, event] of fresh.entries()) {
+    if (existing[index] === null) changes.push({ kind: 'create', event })
+  }
+
+  const outcome = await writeInBatches(
+    calendarTarget(opts.container),
+    {
+      name: opts.targetCalendarName,
+      sourceId: opts.sourceId ?? null,
+      colorHex: normalizeCalendarColorHex(opts.calendarColorHex)
+    },
+    [...removals, ...changes],
+    { signal: opts.signal, onProgress: opts.onProgress }
+  )
+
+  // Whatever was written is recorded, even when the import stopped part way
+  await recordImportRun({
+    feed: opts.feed ?? null,
     calendarName: opts.targetCalendarName,
-    events: opts.events,
     container: opts.container,
-    calendarColorHex: normalizeCalendarColorHex(opts.calendarColorHex)
+    sourceId: opts.sourceId ?? null,
+    created: outcome.created,
+    updated: outcome.updated.length,
+    skipped: skipped + duplicates
+  })
+  if (outcome.deleted.length > 0) {
+    await markEventsRemoved(outcome.deleted)
+  }
+  await forgetLedgerEvents(outcome.deleted)
+
+  const importedAt = Date.now()
+  const written = [...outcome.created, ...outcome.updated]
+
+  await recordLedgerEntries(
+    written
+      .filter(({ event }) => event.uid)
+      .map(({ event, eventId }) => ({
+        feed: event.feed,
+        uid: event.uid as string,
+        recurrenceId: event.recurrenceId,
+        eventId,
+        container: opts.container,
+        sourceId: opts.sourceId ?? null,
+        calendarName: opts.targetCalendarName,
+        fingerprint: eventFingerprint(event),
+        importedAt
+      }))
+  )
+
+  return {
+    created: outcome.created.length,
+    updated: outcome.updated.length,
+    skipped: skipped + duplicates,
+    removed: outcome.removed,
+    duplicates,
+    failed: outcome.failed,
+    remaining: outcome.remaining,
+    stopped: outcome.stopped,
+    written: written.map(({ event }) => ({
+      summary: event.summary,
+      startMs: event.startMs,
+      isAllDay: event.isAllDay
+    }))
   }
+}
 
-  const { stdout } =
-    opts.container === 'local' ? await runJxaImport(payload) : await runSwiftImport(payload)
+/**
+ * For each event, the id of an event already in the target calendar with the
+ * same title, start and end, or null. Events this app imported into that
+ * calendar before are left to the ledger, which updates them instead.
+ */
+export async function findExistingDuplicates(opts: {
+  targetCalendarName: string
+  container: CalendarContainer
+  sourceId?: string | null
+  events: ParsedIcsEvent[]
+}): Promise<(string | null)[]> {
+  const span = eventSpan(opts.events)
+  if (!span) return []
+
+  const existing = await calendarTarget(opts.container).listEvents(
+    { name: opts.targetCalendarName, sourceId: opts.sourceId ?? null },
+    span
+  )
+  const matches = findCalendarDuplicates(opts.events, existing)
+  return await Promise.all(
+    opts.events.map(async (event, index) => {
+      const entry = event.uid
+        ? await findLedgerEntry(event.feed, event.uid, event.recurrenceId)
+        : undefined
+      return isEntryFor(entry, opts) ? null : matches[index]
+    })
+  )
+}
 
-  return JSON.parse(stdout.trim()) as { created: number }
+// Removes events this app created earlier and returns the ids that are now gone;
+// never creates the calendar if it is already gone
+export async function deleteCalendarEvents(opts: {
+  targetCalendarName: string
+  container: CalendarContainer
+  sourceId?: string | null
+  eventIds: string[]
+}): Promise<string[]> {
+  if (opts.eventIds.length === 0) return []
+
+  const result = await calendarTarget(opts.container).writeEvents(
+    {
+      name: opts.targetCalendarName,
+      sourceId: opts.sourceId ?? null,
+      colorHex: normalizeCalendarColorHex('')
+    },
+    { create: [], update: [], delete: opts.eventIds }
+  )
+  return result.deletedIds.filter((eventId) => eventId !== '')
 }
 
+/**
+ * Reads one or more feeds into a single list of events. Also returns the saved
+ * review settings for that combination of feeds, what they decide for each
+ * event, and which events repeat one already read from another feed.
+ */
 export async function previewIcsEvents(opts: {
-  icsUrl: string
-}): Promise<{ events: ParsedIcsEvent[] }> {
-  const events = await parseIcsEvents(opts.icsUrl)
-  return { events }
+  sources: IcsSource[]
+  window?: RecurrenceWindow
+}): Promise<{
+  events: ParsedIcsEvent[]
+  // Settings key for the combination, the feed identity itself when there is one source
+  feed: string
+  feeds: string[]
+  // Index of the earlier event each one duplicates, or null
+  duplicates: (number | null)[]
+  filters: FilterRuleSet
+  decisions: FilterDecision[]
+  grouping: GroupingStrategy
+  groups: EventGroupAssignment[]
+  rewrites: RewriteRule[]
+  alerts: AlertSettings
+  prepared: ParsedIcsEvent[]
+}> {
+  if (opts.sources.length === 0) throw new Error('Choose at least one calendar to preview.')
+
+  const window = opts.window ?? defaultRecurrenceWindow()
+  const feeds = opts.sources.map(feedIdentity)
+  const loaded = await Promise.all(opts.sources.map((source) => loadIcsData(source)))
+  const events = loaded.flatMap((data, index) => parseIcsEvents(data, window, feeds[index]))
+  const feed = mergedFeedIdentity(feeds)
+  const { filters, grouping, rewrites, alerts } = await getFeedSettings(feed)
+  const groups = assignEventGroups(events, grouping)
+  return {
+    events,
+    feed,
+    feeds,
+    duplicates: findCrossFeedDuplicates(events),
+    filters,
+    decisions: evaluateFilterRules(events, filters),
+    grouping,
+    groups,
+    rewrites,
+    alerts,
+    prepared: prepareEvents(events, { rewrites, alerts, groups })
+  }
 }
 
-async function parseIcsEvents(icsUrl: string): Promise<ParsedIcsEvent[]> {
-  const url = normalizeIcsUrl(icsUrl)
-
-  const fromUrl = ical.async.fromURL as (
-    sourceUrl: string,
-    options: { headers: { 'User-Agent': string } }
-  ) => Promise<Record<string, unknown>>
-
-  const data = await fromUrl(url, {
-    headers: { 'User-Agent': 'CustomCalendar/0.0.1' }
-  })
+// Shapes reviewed events into what gets written: rewrite rules first, then alerts
+export function prepareEvents(
+  events: ParsedIcsEvent[],
+  opts: {
+    rewrites: RewriteRule[]
+    alerts: AlertSettings
+    groups: EventGroupAssignment[]
+  }
+): ParsedIcsEvent[] {
+  const rewritten = applyRewriteRules(events, opts.rewrites, { groups: opts.groups })
+  return applyAlertSettings(rewritten, opts.alerts, opts.groups)
+}
 
+function parseIcsEvents(
+  data: Record<string, unknown>,
+  window: RecurrenceWindow,
+  feed: string
+): ParsedIcsEvent[] {
   const oneDay = 24 * 60 * 60 * 1000
+  const zones = collectVTimeZones(data)
 
   return Object.values(data)
     .filter(isIcsSourceEvent)
+    .flatMap((v) => expandOccurrences(v, window))
     .map((v) => {
-      const allDay = isAllDayEvent(v)
+      const start = resolveIcsTime(v.start instanceof Date ? v.start : new Date(), zones)
+      const sourceEnd = v.end instanceof Date ? resolveIcsTime(v.end, zones) : null
 
-      const start: Date = v.start instanceof Date ? v.start : new Date()
+      const allDay = isAllDayEvent(v, start, sourceEnd)
 
       // Fallback end:
       // - all-day: next day
       // - timed: +1 hour
-      let end: Date =
-        v.end instanceof Date
-          ? v.end
-          : new Date(start.getTime() + (allDay ? oneDay : 60 * 60 * 1000))
+      let durationMs = sourceEnd
+        ? sourceEnd.date.getTime() - start.date.getTime()
+        : allDay
+          ? oneDay
+          : 60 * 60 * 1000
 
       // Calendar expects all-day DTEND to be exclusive and at least next day
-      if (allDay && end.getTime() <= start.getTime()) {
-        end = new Date(start.getTime() + oneDay)
+      if (allDay && durationMs <= 0) {
+        durationMs = oneDay
       }
 
+      const endWall =
+        sourceEnd && durationMs === sourceEnd.date.getTime() - start.date.getTime()
+          ? sourceEnd.wall
+          : shiftWallTime(start.wall, durationMs)
+
       return {
         summary: String(v.summary ?? '(no title)'),
         description: v.description ? String(v.description) : '',
         location: v.location ? String(v.location) : '',
         isAllDay: allDay,
-        startMs: start.getTime(),
-        endMs: end.getTime(),
-        startYMD: allDay ? ymd(start) : null,
-        endYMD: allDay ? ymd(end) : null
+        startMs: start.date.getTime(),
+        endMs: start.date.getTime() + durationMs,
+        startYMD: allDay ? ymd(start.wall) : null,
+        endYMD: allDay ? ymd(endWall) : null,
+        timeKind: start.kind,
+        tzid: start.tzid,
+        timeZone: start.timeZone,
+        startWall: start.wall,
+        endWall,
+        uid: typeof v.uid === 'string' && v.uid ? v.uid : null,
+        recurrenceId: formatRecurrenceId(v.recurrenceid),
+        categories: Array.isArray(v.categories)
+          ? v.categories.filter(
+              (category): category is string => typeof category === 'string' && category !== ''
+            )
+          : [],
+        alarms: parseSourceAlarms(v.alarms),
+        ...parseEventMetadata(v),
+        feed
       }
     })
 }
-
-async function runJxaImport(payload: ImportPayload): Promise<ExecResult> {
-  const payloadB64 = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64')
-
-  const jxa = `
-ObjC.import('Foundation');
-
-function b64decode(s) {
-  var ns = $.NSString.alloc.initWithUTF8String(s);
-  var data = $.NSData.alloc.initWithBase64EncodedStringOptions(ns, 0);
-  return $.NSString.alloc.initWithDataEncoding(data, $.NSUTF8StringEncoding).js;
-}
-
-var payload = JSON.parse(b64decode("${payloadB64}"));
-var Calendar = Application("Calendar");
-
-// Find or create calendar
-var matches = Calendar.calendars.whose({ name: payload.calendarName });
-var cal = (matches.length > 0)
-  ? matches[0]
-  : Calendar.Calendar({ name: payload.calendarName }).make();
-try { cal.color = payload.calendarColorHex; } catch (err) {}
-
-var created = 0;
-
-payload.events.forEach(function(e) {
-  var startDate, endDate;
-
-  if (e.isAllDay && e.startYMD && e.endYMD) {
-    // Local dates (no timezone shift) for all-day banners
-    startDate = new Date(e.startYMD[0], e.startYMD[1] - 1, e.startYMD[2]);
-    endDate   = new Date(e.endYMD[0],   e.endYMD[1] - 1,   e.endYMD[2]);
-  } else {
-    startDate = new Date(e.startMs);
-    endDate   = new Date(e.endMs);
-  }
-
-  var ev = Calendar.Event({
-    summary: e.summary,
-    startDate: startDate,
-    endDate: endDate,
-    location: e.location,
-    description: e.description
-  });
-
-  cal.events.push(ev);
-
-  if (e.isAllDay) {
-    // Try both property names (varies by macOS scripting dictionary)
-    try { ev.allDayEvent = true; } catch (err) {}
-    try { ev.alldayEvent = true; } catch (err) {}
-  }
-
-  created++;
-});
-
-JSON.stringify({ created: created });
-`
-
-  return (await execFileAsync('/usr/bin/osascript', ['-l', 'JavaScript', '-e', jxa])) as ExecResult
-}
-
-async function runSwiftImport(payload: ImportPayload): Promise<ExecResult> {
-  const script = `
-import Foundation
-import EventKit
-import CoreGraphics
-
-struct EventPayload: Codable {
-  let summary: String
-  let description: String
-  let location: String
-  let isAllDay: Bool
-  let startMs: Double
-  let endMs: Double
-  let startYMD: [Int]?
-  let endYMD: [Int]?
-}
-
-struct Payload: Codable {
-  let calendarName: String
-  let events: [EventPayload]
-  let container: String
-  let calendarColorHex: String
-}
-
-func colorFromHex(_ rawHex: String) -> CGColor? {
-  let hex = rawHex.trimmingCharacters(in: .whitespacesAndNewlines)
-  guard hex.count == 7, hex.hasPrefix("#") else { return nil }
-  let start = hex.index(after: hex.startIndex)
-  let rgbHex = String(hex[start...])
-  guard let value = UInt32(rgbHex, radix: 16) else { return nil }
-  let red = CGFloat((value >> 16) & 0xFF) / 255.0
-  let green = CGFloat((value >> 8) & 0xFF) / 255.0
-  let blue = CGFloat(value & 0xFF) / 255.0
-  return CGColor(red: red, green: green, blue: blue, alpha: 1.0)
-}
-
-let args = CommandLine.arguments
-guard args.count > 1 else {
-  fputs("Missing payload path\\n", stderr)
-  exit(1)
-}
-
-let payloadUrl = URL(fileURLWithPath: args[1])
-let payloadData = try Data(contentsOf: payloadUrl)
-let payload = try JSONDecoder().decode(Payload.self, from: payloadData)
-
-let store = EKEventStore()
-let sema = DispatchSemaphore(value: 0)
-var accessGranted = false
-var accessError: Error?
-
-store.requestAccess(to: .event) { granted, error in
-  accessGranted = granted
-  accessError = error
-  sema.signal()
-}
-sema.wait()
-
-if !accessGranted {
-  fputs("Calendar access denied: \\(accessError?.localizedDescription ?? "Unknown error")\\n", stderr)
-  exit(1)
-}
-
-let sources = store.sources
-func sourceLabel(_ source: EKSource) -> String {
-  return "\\(source.title) (\\(source.sourceType.rawValue))"
-}
-
-func pickSource() -> EKSource? {
-  switch payload.container.lowercased() {
-  case "local":
-    if let source = sources.first(where: { $0.sourceType == .local }) {
-      return source
-    }
-    if let source = sources.first(where: {
-      let title = $0.title.lowercased()
-      return title.contains("on my mac") || title.contains("local") || title == "other"
-    }) {
-      return source
-    }
-    return sources.first(where: { $0.sourceType != .calDAV && $0.sourceType != .subscribed })
-  case "icloud":
-    if let icloud = sources.first(where: { $0.sourceType == .calDAV && $0.title.lowercased().contains("icloud") }) {
-      return icloud
-    }
-    return sources.first(where: { $0.sourceType == .calDAV })
-  default:
-    return nil
-  }
-}
-
-guard let source = pickSource() else {
-  let available = sources.map(sourceLabel).joined(separator: ", ")
-  fputs("No matching calendar source for \\(payload.container). Available: \\(available)\\n", stderr)
-  exit(1)
-}
-
-let calendars = store.calendars(for: .event)
-let targetCalendar = calendars.first(where: { $0.title == payload.calendarName && $0.source.sourceIdentifier == source.sourceIdentifier })
-let calendar: EKCalendar
-if let existing = targetCalendar {
-  calendar = existing
-} else {
-  let newCalendar = EKCalendar(for: .event, eventStore: store)
-  newCalendar.title = payload.calendarName
-  newCalendar.source = source
-  try store.saveCalendar(newCalendar, commit: true)
-  calendar = newCalendar
-}
-
-if let chosenColor = colorFromHex(payload.calendarColorHex) {
-  do {
-    calendar.cgColor = chosenColor
-    try store.saveCalendar(calendar, commit: true)
-  } catch {}
-}
-
-let cal = Calendar.current
-var created = 0
-
-for e in payload.events {
-  let event = EKEvent(eventStore: store)
-  event.calendar = calendar
-  event.title = e.summary
-  event.location = e.location.isEmpty ? nil : e.location
-  event.notes = e.description.isEmpty ? nil : e.description
-  if e.isAllDay, let start = e.startYMD, let end = e.endYMD, start.count == 3, end.count == 3 {
-    let startComponents = DateComponents(year: start[0], month: start[1], day: start[2])
-    let endComponents = DateComponents(year: end[0], month: end[1], day: end[2])
-    event.startDate = cal.date(from: startComponents)
-    event.endDate = cal.date(from: endComponents)
-    event.isAllDay = true
-  } else {
-    event.startDate = Date(timeIntervalSince1970: e.startMs / 1000.0)
-    event.endDate = Date(timeIntervalSince1970: e.endMs / 1000.0)
-    event.isAllDay = false
-  }
-  try store.save(event, span: .thisEvent, commit: false)
-  created += 1
-}
-
-try store.commit()
-let result = ["created": created]
-let resultData = try JSONSerialization.data(withJSONObject: result, options: [])
-FileHandle.standardOutput.write(resultData)
-`
-
-  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'CustomCal-'))
-  const scriptPath = path.join(tmpDir, 'import.swift')
-  const payloadPath = path.join(tmpDir, 'payload.json')
-
-  try {
-    await fs.writeFile(scriptPath, script, 'utf8')
-    await fs.writeFile(payloadPath, JSON.stringify(payload), 'utf8')
-    return (await execFileAsync('/usr/bin/swift', [scriptPath, payloadPath])) as ExecResult
-  } finally {
-    await fs.rm(tmpDir, { recursive: true, force: true })
-  }
-}
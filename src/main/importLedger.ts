@@ -0,0 +1,96 @@
+import { createHash } from 'node:crypto'
+import type { ParsedIcsEvent } from './importIcs'
+import { readJsonStore, writeJsonStore } from './jsonStore'
+import type { CalendarContainer } from './targets'
+
+export type LedgerEntry = {
+  feed: string
+  uid: string
+  recurrenceId: string | null
+  eventId: string
+  container: CalendarContainer
+  // The account the calendar is in, or null for the target's default one
+  sourceId: string | null
+  calendarName: string
+  fingerprint: string
+  importedAt: number
+}
+
+// Entries written before accounts could be picked have no sourceId; they went to the default one
+type StoredLedgerEntry = Omit<LedgerEntry, 'sourceId'> & { sourceId?: string | null }
+
+const STORE_FILE = 'import-ledger.json'
+
+let entries: Map<string, LedgerEntry> | null = null
+
+function ledgerKey(feed: string, uid: string, recurrenceId: string | null): string {
+  return JSON.stringify([feed, uid, recurrenceId])
+}
+
+async function loadLedger(): Promise<Map<string, LedgerEntry>> {
+  if (entries) return entries
+
+  const stored = await readJsonStore<{ entries?: StoredLedgerEntry[] }>(STORE_FILE, {})
+  entries = new Map(
+    (Array.isArray(stored.entries) ? stored.entries : []).map((entry) => [
+      ledgerKey(entry.feed, entry.uid, entry.recurrenceId),
+      { ...entry, sourceId: entry.sourceId ?? null }
+    ])
+  )
+  return entries
+}
+
+async function saveLedger(): Promise<void> {
+  if (!entries) return
+  await writeJsonStore(STORE_FILE, { entries: Array.from(entries.values()) })
+}
+
+// Hash of everything that ends up on the calendar event, to tell changed events from unchanged
+export function eventFingerprint(event: ParsedIcsEvent): string {
+  const relevant = [
+    event.summary,
+    event.description,
+    event.location,
+    event.isAllDay,
+    event.startMs,
+    event.endMs,
+    event.startYMD,
+    event.endYMD,
+    event.timeZone,
+    // Left out when unset so events recorded before these were written still match
+    ...(event.alarms.length > 0 ? [event.alarms] : []),
+    ...(event.url ? [['url', event.url]] : []),
+    ...(event.transparency === 'transparent' ? ['transparent'] : [])
+  ]
+  return createHash('sha1').update(JSON.stringify(relevant)).digest('hex')
+}
+
+export async function findLedgerEntry(
+  feed: string,
+  uid: string,
+  recurrenceId: string | null
+): Promise<LedgerEntry | undefined> {
+  return (await loadLedger()).get(ledgerKey(feed, uid, recurrenceId))
+}
+
+export async function recordLedgerEntries(updates: LedgerEntry[]): Promise<void> {
+  if (updates.length === 0) return
+
+  const ledger = await loadLedger()
+  for (const entry of updates) {
+    ledger.set(ledgerKey(entry.feed, entry.uid, entry.recurrenceId), entry)
+  }
+  await saveLedger()
+}
+
+// Drops entries for events that were removed from the calendar, so a later import creates them afresh
+export async function forgetLedgerEvents(eventIds: string[]): Promise<void> {
+  if (eventIds.length === 0) return
+
+  const ledger = await loadLedger()
+  const removed = new Set(eventIds)
+  for (const [key, entry] of ledger) {
+    if (removed.has(entry.eventId)) ledger.delete(key)
+  }
+  await saveLedger()
+}
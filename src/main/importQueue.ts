@@ -0,0 +1,11 @@
+let chain: Promise<unknown> = Promise.resolve()
+
+/**
+ * Imports from the popup, subscription syncs and reverts all write the calendar,
+ * the ledger and the history, so they run one at a time in the order they came.
+ */
+export function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = chain.then(task, task)
+  chain = run.catch(() => undefined)
+  return run
+}
@@ -2,6 +2,7 @@ import {
   app,
   shell,
   BrowserWindow,
+  dialog,
   ipcMain,
   Tray,
   nativeImage,
@@ -11,14 +12,58 @@ import {
 import { existsSync } from 'node:fs'
 import { join } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
-import { importIcsToCalendar, previewIcsEvents } from './importIcs'
+import { isCliInvocation, runCli } from './cli'
+import { getCaldavAccountSummary, saveCaldavAccount } from './caldavAccount'
+import { getFeedCredentialSummary, saveFeedCredentials } from './feedCredentials'
+import { updateFeedSettings } from './feedSettings'
+import { evaluateFilterRules } from './filterRules'
+import { assignEventGroups, DEFAULT_STRIP_PATTERNS } from './grouping'
+import { writeIcsFile } from './icsExport'
+import { feedIdentity } from './icsSource'
+import { listImportRuns } from './importHistory'
+import {
+  findExistingDuplicates,
+  importIcsToCalendar,
+  prepareEvents,
+  previewIcsEvents
+} from './importIcs'
+import { runExclusive } from './importQueue'
+import { registerIpcHandlers, sendIpcEvent } from './ipc'
+import { removeImportedGroup, revertImportRun } from './rollback'
+import {
+  createSubscription,
+  deleteSubscription,
+  listSubscriptions,
+  setSubscriptionPaused,
+  startSubscriptionScheduler,
+  stopSubscriptionScheduler,
+  syncSubscriptionNow
+} from './subscriptions'
+import { describeTargets, listCalendarSources, stopNativeHelpers } from './targets'
 
 let tray: Tray | null = null
 let trayWindow: BrowserWindow | null = null
+let isDialogOpen = false
+// Aborted by the review modal's Cancel button
+let runningImport: AbortController | null = null
 
 const TRAY_WINDOW_WIDTH = 400
 const TRAY_WINDOW_HEIGHT = 500
 
+// Everything after the executable, or after the app path when run unpackaged
+const cliArgs = process.argv.slice(app.isPackaged ? 1 : 2)
+const isCli = isCliInvocation(cliArgs)
+// One tray app at a time, and none while a command-line import holds the lock
+const hasInstanceLock = isCli || app.requestSingleInstanceLock()
+
+if (!hasInstanceLock) {
+  app.quit()
+}
+
+if (isCli && process.platform === 'darwin') {
+  app.dock?.hide()
+}
+
 function resolveResourcePath(filename: string): string {
   const candidates = [
     join(__dirname, '../../resources', filename),
@@ -126,6 +171,8 @@ function createTrayWindow(): void {
   })
 
   trayWindow.on('blur', () => {
+    // Native dialogs take focus from the popup; keep it open underneath them
+    if (isDialogOpen) return
     trayWindow?.hide()
   })
 
@@ -143,6 +190,45 @@ function createTrayWindow(): void {
   }
 }
 
+async function chooseIcsFile(): Promise<string | null> {
+  isDialogOpen = true
+  try {
+    const options: Electron.OpenDialogOptions = {
+      properties: ['openFile'],
+      filters: [
+        { name: 'iCalendar', extensions: ['ics', 'ical', 'icalendar', 'ifb'] },
+        { name: 'All Files', extensions: ['*'] }
+      ]
+    }
+    const result =
+      trayWindow && !trayWindow.isDestroyed()
+        ? await dialog.showOpenDialog(trayWindow, options)
+        : await dialog.showOpenDialog(options)
+    return result.canceled ? null : (result.filePaths[0] ?? null)
+  } finally {
+    isDialogOpen = false
+    trayWindow?.focus()
+  }
+}
+
+async function chooseExportPath(calendarName: string): Promise<string | null> {
+  isDialogOpen = true
+  try {
+    const options: Electron.SaveDialogOptions = {
+      defaultPath: `${calendarName.trim().replace(/[\\/:*?"<>|]/g, '-') || 'Calendar'}.ics`,
+      filters: [{ name: 'iCalendar', extensions: ['ics'] }]
+    }
+    const result =
+      trayWindow && !trayWindow.isDestroyed()
+        ? await dialog.showSaveDialog(trayWindow, options)
+        : await dialog.showSaveDialog(options)
+    return result.canceled ? null : (result.filePath ?? null)
+  } finally {
+    isDialogOpen = false
+    trayWindow?.focus()
+  }
+}
+
 function createTray(): void {
   tray = new Tray(getTrayIcon())
   tray.setToolTip('Custom Calendar')
@@ -153,16 +239,79 @@ function createTray(): void {
 // initialization and is ready to create browser windows.
 // Some APIs can only be used after this event occurs.
 app.whenReady().then(() => {
+  // Commands run headless against the same settings and ledger, then quit
+  if (isCli) {
+    // app.exit skips will-quit, so the helper is stopped here
+    void runCli(cliArgs).then((code) => {
+      stopNativeHelpers()
+      app.exit(code)
+    })
+    return
+  }
+  if (!hasInstanceLock) return
+
   // Set app user model id for windows
   electronApp.setAppUserModelId('com.electron')
 
-  ipcMain.handle('calendar:importIcs', async (_event, opts) => {
-    return await importIcsToCalendar(opts)
+  registerIpcHandlers({
+    previewCalendar: (opts) => previewIcsEvents(opts),
+    findExistingDuplicates: (opts) => findExistingDuplicates(opts),
+    listCalendarTargets: () => describeTargets(),
+    listCalendarSources: () => listCalendarSources(),
+    chooseIcsFile: () => chooseIcsFile(),
+    importCalendar: async (opts, sender) => {
+      // Cancel only reaches one import, so a second one is turned away rather than queued
+      if (runningImport) throw new Error('An import is already running.')
+      const controller = new AbortController()
+      runningImport = controller
+      try {
+        return await runExclusive(() =>
+          importIcsToCalendar({
+            ...opts,
+            signal: controller.signal,
+            onProgress: (progress) => sendIpcEvent(sender, 'importProgress', progress)
+          })
+        )
+      } finally {
+        if (runningImport === controller) runningImport = null
+      }
+    },
+    cancelImport: () => {
+      runningImport?.abort()
+      return runningImport !== null
+    },
+    exportCalendar: async (opts) => {
+      const filePath = await chooseExportPath(opts.calendarName)
+      if (!filePath) return null
+      return await writeIcsFile({ ...opts, filePath })
+    },
+    evaluateFilters: (opts) => evaluateFilterRules(opts.events, opts.filters),
+    assignGroups: (opts) => assignEventGroups(opts.events, opts.grouping),
+    defaultStripPatterns: () => DEFAULT_STRIP_PATTERNS,
+    prepareEvents: (opts) =>
+      prepareEvents(opts.events, {
+        rewrites: opts.rewrites,
+        alerts: opts.alerts,
+        groups: assignEventGroups(opts.events, opts.grouping)
+      }),
+    saveFeedSettings: (opts) => updateFeedSettings(opts.feed, opts.settings),
+    getFeedCredentials: (opts) =>
+      getFeedCredentialSummary(feedIdentity({ kind: 'url', url: opts.url })),
+    saveFeedCredentials: (opts) =>
+      saveFeedCredentials(feedIdentity({ kind: 'url', url: opts.url }), opts.credentials),
+    getCaldavAccount: () => getCaldavAccountSummary(),
+    saveCaldavAccount: (opts) => saveCaldavAccount(opts.login),
+    listSubscriptions: () => listSubscriptions(),
+    createSubscription: (opts) => createSubscription(opts),
+    setSubscriptionPaused: (opts) => setSubscriptionPaused(opts),
+    deleteSubscription: (opts) => deleteSubscription(opts),
+    syncSubscriptionNow: (opts) => syncSubscriptionNow(opts),
+    listImportRuns: () => listImportRuns(),
+    revertImportRun: (opts) => runExclusive(() => revertImportRun(opts)),
+    removeImportedGroup: (opts) => runExclusive(() => removeImportedGroup(opts))
   })
 
-  ipcMain.handle('calendar:previewIcs', async (_event, opts) => {
-    return await previewIcsEvents(opts)
-  })
+  void startSubscriptionScheduler()
 
   // Default open or close DevTools by F12 in development
   // and ignore CommandOrControl + R in production.
@@ -191,6 +340,11 @@ app.whenReady().then(() => {
   })
 })
 
+app.on('will-quit', () => {
+  stopSubscriptionScheduler()
+  stopNativeHelpers()
+})
+
 // Quit when all windows are closed, except on macOS. There, it's common
 // for applications and their menu bar to stay active until the user quits
 // explicitly with Cmd + Q.
@@ -0,0 +1,74 @@
+import { ipcMain, type WebContents } from 'electron'
+import { asAppError } from './appErrors'
+import {
+  IPC_CHANNELS,
+  IPC_EVENTS,
+  IpcRequestError,
+  type IpcErrorInfo,
+  type IpcEvent,
+  type IpcEvents,
+  type IpcMethod,
+  type IpcRequest,
+  type IpcResponse,
+  type IpcResult
+} from '../shared/ipc'
+
+// The sender is where events about the request, such as progress, are pushed
+export type IpcHandlers = {
+  [M in IpcMethod]: (
+    request: IpcRequest<M>,
+    sender: WebContents
+  ) => IpcResponse<M> | Promise<IpcResponse<M>>
+}
+
+function errorInfo(error: unknown): IpcErrorInfo {
+  if (error instanceof IpcRequestError) {
+    return { code: error.code, message: error.message, path: error.path, detail: null, fix: null }
+  }
+  const known = asAppError(error)
+  if (known) {
+    return {
+      code: known.detail.code,
+      message: known.message,
+      path: null,
+      detail: known.detail,
+      fix: known.fix
+    }
+  }
+  return {
+    code: 'failed',
+    message: error instanceof Error ? error.message : String(error),
+    path: null,
+    detail: null,
+    fix: null
+  }
+}
+
+/**
+ * Answers every channel in the contract. Requests are validated before they
+ * reach a handler, and failures come back as an IpcErrorInfo instead of a
+ * thrown error, so the popup sees the original message and its code.
+ */
+export function registerIpcHandlers(handlers: IpcHandlers): void {
+  for (const method of Object.keys(IPC_CHANNELS) as IpcMethod[]) {
+    const { channel, request } = IPC_CHANNELS[method]
+    const handler = handlers[method] as (request: unknown, sender: WebContents) => unknown
+
+    ipcMain.handle(channel, async (event, payload: unknown): Promise<IpcResult<unknown>> => {
+      try {
+        return { ok: true, value: await handler(request(payload, 'request'), event.sender) }
+      } catch (error) {
+        if (!(error instanceof IpcRequestError)) console.error(`${channel} failed:`, error)
+        return { ok: false, error: errorInfo(error) }
+      }
+    })
+  }
+}
+
+export function sendIpcEvent<E extends IpcEvent>(
+  contents: WebContents,
+  event: E,
+  payload: IpcEvents[E]
+): void {
+  if (!contents.isDestroyed()) contents.send(IPC_EVENTS[event], payload)
+}
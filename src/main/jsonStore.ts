@@ -0,0 +1,27 @@
+import { app } from 'electron'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+function storePath(fileName: string): string {
+  return path.join(app.getPath('userData'), fileName)
+}
+
+export async function readJsonStore<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(storePath(fileName), 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Could not read ${fileName}, starting empty:`, error)
+    }
+    return fallback
+  }
+}
+
+// Write-then-rename so a crash mid-write never leaves a truncated store behind
+export async function writeJsonStore(fileName: string, data: unknown): Promise<void> {
+  const target = storePath(fileName)
+  const tmp = `${target}.tmp`
+  await fs.mkdir(path.dirname(target), { recursive: true })
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf8')
+  await fs.rename(tmp, target)
+}
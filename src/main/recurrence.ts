@@ -0,0 +1,302 @@
+import ical, { type VEvent } from 'node-ical'
+import { isValidTimeZone, wallTimeToDate } from './timezone'
+
+export type RecurrenceWindow = {
+  startMs: number
+  endMs: number
+}
+
+export type RecurringSource = {
+  datetype?: string
+  start?: unknown
+  end?: unknown
+  rrule?: unknown
+  rdate?: unknown
+  exdate?: unknown
+  recurrences?: unknown
+  recurrenceid?: unknown
+}
+
+type RdateEntry = {
+  start: Date
+  end: Date | null
+  dateOnly: boolean
+}
+
+const oneDay = 24 * 60 * 60 * 1000
+
+const DEFAULT_WINDOW_DAYS = 365
+
+const ICS_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/
+
+const ICS_DURATION_PATTERN =
+  /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+
+export function defaultRecurrenceWindow(now = Date.now()): RecurrenceWindow {
+  return {
+    startMs: now - DEFAULT_WINDOW_DAYS * oneDay,
+    endMs: now + DEFAULT_WINDOW_DAYS * oneDay
+  }
+}
+
+function isAllDaySource(v: RecurringSource): boolean {
+  if (v.datetype === 'date') return true
+  return v.start instanceof Date && (v.start as Date & { dateOnly?: boolean }).dateOnly === true
+}
+
+function dateKey(date: Date, dateOnly: boolean): string {
+  if (dateOnly) {
+    const month = String(date.getMonth() + 1).padStart(2, '0')
+    const day = String(date.getDate()).padStart(2, '0')
+    return `${date.getFullYear()}-${month}-${day}`
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+// node-ical stores EXDATE and RECURRENCE-ID entries under both a YYYY-MM-DD key
+// and, for timed values, the full ISO timestamp
+function lookupByInstance<T>(table: unknown, date: Date, dateOnly: boolean): T | undefined {
+  if (typeof table !== 'object' || table === null) return undefined
+  const entries = table as Record<string, T | undefined>
+  if (!dateOnly) {
+    const exact = entries[date.toISOString()]
+    if (exact !== undefined) return exact
+  }
+  return entries[dateKey(date, dateOnly)]
+}
+
+function parseDuration(value: string): number | null {
+  const match = ICS_DURATION_PATTERN.exec(value.trim())
+  if (!match) return null
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match
+  const totalMs =
+    Number(weeks ?? 0) * 7 * oneDay +
+    Number(days ?? 0) * oneDay +
+    Number(hours ?? 0) * 60 * 60 * 1000 +
+    Number(minutes ?? 0) * 60 * 1000 +
+    Number(seconds ?? 0) * 1000
+
+  return sign === '-' ? -totalMs : totalMs
+}
+
+function parseIcsDate(
+  value: string,
+  timeZone: string | null
+): { date: Date; dateOnly: boolean } | null {
+  const match = ICS_DATE_PATTERN.exec(value.trim())
+  if (!match) return null
+
+  const [, y, mo, d, h, mi, s, utc] = match
+  if (h === undefined) {
+    // Same convention node-ical uses for DATE values: local midnight
+    return { date: new Date(Number(y), Number(mo) - 1, Number(d)), dateOnly: true }
+  }
+
+  const wall: [number, number, number, number, number, number] = [
+    Number(y),
+    Number(mo),
+    Number(d),
+    Number(h),
+    Number(mi),
+    Number(s)
+  ]
+  return { date: wallTimeToDate(wall, utc ? 'UTC' : timeZone), dateOnly: false }
+}
+
+function rdateTimeZone(v: RecurringSource, params: Record<string, unknown>): string | null {
+  // node-ical has already resolved DTSTART's TZID (including Windows names) to IANA
+  const startZone = v.start instanceof Date ? (v.start as Date & { tz?: string }).tz : undefined
+  if (startZone && isValidTimeZone(startZone)) return startZone
+
+  const tzid = typeof params.TZID === 'string' ? params.TZID.replace(/^"(.*)"$/, '$1') : null
+  return tzid && isValidTimeZone(tzid) ? tzid : null
+}
+
+function parseRdates(v: RecurringSource): RdateEntry[] {
+  if (v.rdate === undefined || v.rdate === null) return []
+
+  const lines = Array.isArray(v.rdate) ? v.rdate : [v.rdate]
+  const entries: RdateEntry[] = []
+
+  for (const line of lines) {
+    let raw: string
+    let params: Record<string, unknown> = {}
+
+    if (typeof line === 'string') {
+      raw = line
+    } else if (typeof line === 'object' && line !== null && 'val' in line) {
+      raw = String((line as { val: unknown }).val)
+      params = ((line as { params?: Record<string, unknown> }).params ?? {}) as Record<
+        string,
+        unknown
+      >
+    } else {
+      continue
+    }
+
+    const timeZone = rdateTimeZone(v, params)
+
+    for (const value of raw.split(',')) {
+      const [startText, endText] = value.split('/')
+      const start = parseIcsDate(startText, timeZone)
+      if (!start) continue
+
+      let end: Date | null = null
+      if (endText) {
+        const explicitEnd = parseIcsDate(endText, timeZone)
+        const duration = explicitEnd ? null : parseDuration(endText)
+        if (explicitEnd) {
+          end = explicitEnd.date
+        } else if (duration !== null) {
+          end = new Date(start.date.getTime() + duration)
+        }
+      }
+
+      entries.push({ start: start.date, end, dateOnly: start.dateOnly })
+    }
+  }
+
+  return entries
+}
+
+function addCalendarDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+function instanceEnd(
+  start: Date,
+  source: RecurringSource,
+  base: RecurringSource,
+  allDay: boolean
+): Date | null {
+  const timing = source.start instanceof Date && source.end instanceof Date ? source : base
+  if (!(timing.start instanceof Date) || !(timing.end instanceof Date)) return null
+
+  const durationMs = timing.end.getTime() - timing.start.getTime()
+  if (allDay) {
+    // Whole days, so a DST change inside the span does not shift the end date
+    return addCalendarDays(start, Math.max(1, Math.round(durationMs / oneDay)))
+  }
+  return new Date(start.getTime() + durationMs)
+}
+
+type ZonedDate = Date & { tz?: string; dateOnly?: boolean }
+
+// Expanded instances are plain Dates; carry over the TZID/DATE markers node-ical
+// attaches so later stages still know which zone the series was written in
+function withZoneOf(date: Date, reference: unknown): ZonedDate {
+  const zoned: ZonedDate = new Date(date.getTime())
+  if (reference instanceof Date) {
+    const { tz, dateOnly } = reference as ZonedDate
+    if (tz) zoned.tz = tz
+    if (dateOnly) zoned.dateOnly = dateOnly
+  }
+  return zoned
+}
+
+// RECURRENCE-ID of an instance: the slot the rule generated, even if an override moved it
+function recurrenceIdFor(source: RecurringSource, generated: Date, dateOnly: boolean): ZonedDate {
+  if (source.recurrenceid instanceof Date) return source.recurrenceid
+  const id: ZonedDate = new Date(generated.getTime())
+  if (dateOnly) id.dateOnly = true
+  return id
+}
+
+function withTiming<T extends RecurringSource>(
+  source: T,
+  start: Date,
+  end: Date | null,
+  recurrenceId: ZonedDate,
+  datetype = source.datetype
+): T {
+  const reference = source.start instanceof Date ? source.start : undefined
+  const dateOnly = datetype === 'date'
+  const zonedStart = withZoneOf(start, reference)
+  const zonedEnd = end ? withZoneOf(end, reference) : undefined
+  if (!dateOnly) {
+    delete zonedStart.dateOnly
+    if (zonedEnd) delete zonedEnd.dateOnly
+  }
+  return { ...source, start: zonedStart, end: zonedEnd, datetype, recurrenceid: recurrenceId }
+}
+
+// Feeds may hold only detached instances (RECURRENCE-ID without a master); node-ical
+// keeps the first as the event and files every one of them under `recurrences`
+function detachedInstances<T extends RecurringSource>(v: T): T[] {
+  if (v.recurrenceid === undefined || typeof v.recurrences !== 'object' || !v.recurrences) {
+    return [v]
+  }
+  const instances = new Set(Object.values(v.recurrences as Record<string, T>))
+  return instances.size > 0 ? Array.from(instances) : [v]
+}
+
+/**
+ * Expands a VEVENT into its concrete occurrences. RRULE and RDATE instances
+ * falling inside `window` are returned with EXDATE exclusions and RECURRENCE-ID
+ * overrides applied; events without a recurrence rule pass through untouched.
+ */
+export function expandOccurrences<T extends RecurringSource>(v: T, window: RecurrenceWindow): T[] {
+  const rdates = parseRdates(v)
+  if (!v.rrule && rdates.length === 0) return detachedInstances(v)
+  if (!(v.start instanceof Date)) return [v]
+
+  const from = new Date(window.startMs)
+  const to = new Date(window.endMs)
+  const allDay = isAllDaySource(v)
+  const occurrences = new Map<number, T>()
+
+  if (v.rrule) {
+    const instances = ical.expandRecurringEvent(v as unknown as VEvent, { from, to })
+    for (const instance of instances) {
+      const source = instance.event as unknown as T
+      const instanceAllDay = instance.isFullDay || isAllDaySource(source)
+      occurrences.set(
+        instance.start.getTime(),
+        withTiming(
+          source,
+          instance.start,
+          instanceEnd(instance.start, source, v, instanceAllDay),
+          recurrenceIdFor(source, instance.start, allDay)
+        )
+      )
+    }
+  }
+
+  // The first RDATE-only instance is DTSTART itself
+  const candidates: RdateEntry[] = v.rrule
+    ? rdates
+    : [{ start: v.start, end: v.end instanceof Date ? v.end : null, dateOnly: allDay }, ...rdates]
+
+  for (const candidate of candidates) {
+    const instanceDate = candidate.start
+    if (instanceDate.getTime() < window.startMs || instanceDate.getTime() > window.endMs) continue
+    if (lookupByInstance(v.exdate, instanceDate, candidate.dateOnly) !== undefined) continue
+
+    const override = lookupByInstance<T>(v.recurrences, instanceDate, candidate.dateOnly)
+    const source = override ?? v
+    const start = override && override.start instanceof Date ? override.start : instanceDate
+    if (occurrences.has(start.getTime())) continue
+
+    const end =
+      !override && candidate.end
+        ? candidate.end
+        : instanceEnd(start, source, v, candidate.dateOnly || isAllDaySource(source))
+    // A PERIOD or DATE-TIME RDATE on an all-day series is still a timed instance
+    const datetype = override ? override.datetype : candidate.dateOnly ? 'date' : 'date-time'
+    occurrences.set(
+      start.getTime(),
+      withTiming(
+        source,
+        start,
+        end,
+        recurrenceIdFor(source, instanceDate, candidate.dateOnly),
+        datetype
+      )
+    )
+  }
+
+  return Array.from(occurrences.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, occurrence]) => occurrence)
+}
@@ -0,0 +1,122 @@
+import type { EventGroupAssignment } from './grouping'
+import type { ParsedIcsEvent } from './importIcs'
+
+export type RewriteRule =
+  | { id: string; kind: 'replaceTitle'; pattern: string; replacement: string }
+  // A null group key applies the rule to every group
+  | { id: string; kind: 'prefixTitle'; groupKey: string | null; prefix: string }
+  | { id: string; kind: 'setLocation'; groupKey: string | null; location: string }
+  | { id: string; kind: 'htmlToText' }
+  | { id: string; kind: 'appendSourceUrl' }
+
+type RewriteContext = {
+  // One assignment per event, as returned by assignEventGroups
+  groups: EventGroupAssignment[]
+}
+
+type Rewriter = (event: ParsedIcsEvent, group: EventGroupAssignment | undefined) => ParsedIcsEvent
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1))
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+// Feeds exported from web calendars often carry HTML descriptions that Calendar shows raw
+export function htmlToPlainText(html: string): string {
+  if (!/<\/?[a-z][^>]*>/i.test(html)) return html
+
+  const text = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href, label) => {
+      const plain = label.replace(/<[^>]+>/g, '').trim()
+      return plain && plain !== href ? `${plain} (${href})` : href
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n• ')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|tr)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+
+  return decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function inGroup(groupKey: string | null, group: EventGroupAssignment | undefined): boolean {
+  return groupKey === null || group?.key === groupKey
+}
+
+function compileRule(rule: RewriteRule): Rewriter {
+  switch (rule.kind) {
+    case 'replaceTitle': {
+      if (rule.pattern === '') return (event) => event
+      let pattern: RegExp
+      try {
+        pattern = new RegExp(rule.pattern, 'gi')
+      } catch (error) {
+        throw new Error(
+          `Invalid pattern /${rule.pattern}/: ${error instanceof Error ? error.message : error}`
+        )
+      }
+      return (event) => ({
+        ...event,
+        summary: event.summary.replace(pattern, rule.replacement).replace(/\s+/g, ' ').trim()
+      })
+    }
+    case 'prefixTitle': {
+      const prefix = rule.prefix.trim()
+      return (event, group) =>
+        prefix && inGroup(rule.groupKey, group) && !event.summary.startsWith(prefix)
+          ? { ...event, summary: `${prefix} ${event.summary}` }
+          : event
+    }
+    case 'setLocation':
+      return (event, group) =>
+        inGroup(rule.groupKey, group) ? { ...event, location: rule.location.trim() } : event
+    case 'htmlToText':
+      return (event) => ({ ...event, description: htmlToPlainText(event.description) })
+    case 'appendSourceUrl':
+      return (event) => {
+        // Only feeds fetched from the web have a URL worth linking back to
+        if (!/^https?:\/\//i.test(event.feed)) return event
+        const line = `Source: ${event.feed}`
+        return event.description.includes(line)
+          ? event
+          : { ...event, description: event.description ? `${event.description}\n\n${line}` : line }
+      }
+  }
+}
+
+/**
+ * Applies the feed's rewrite rules, in order, to copies of the events. Filters
+ * and grouping look at the feed as published; rewrites only shape what is written.
+ */
+export function applyRewriteRules(
+  events: ParsedIcsEvent[],
+  rules: RewriteRule[],
+  context: RewriteContext
+): ParsedIcsEvent[] {
+  if (rules.length === 0) return events
+
+  const rewriters = rules.map(compileRule)
+  return events.map((event, index) =>
+    rewriters.reduce((current, rewrite) => rewrite(current, context.groups[index]), event)
+  )
+}
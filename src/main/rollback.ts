@@ -0,0 +1,49 @@
+import { deleteCalendarEvents } from './importIcs'
+import { findImportRun, findImportedGroupEvents, markEventsRemoved } from './importHistory'
+import { forgetLedgerEvents } from './importLedger'
+import type { CalendarContainer } from './targets'
+
+async function removeEvents(opts: {
+  calendarName: string
+  container: CalendarContainer
+  sourceId?: string | null
+  eventIds: string[]
+  revertedRunId?: string
+}): Promise<{ deleted: number }> {
+  const deletedIds = await deleteCalendarEvents({
+    targetCalendarName: opts.calendarName,
+    container: opts.container,
+    sourceId: opts.sourceId,
+    eventIds: opts.eventIds
+  })
+
+  // Events the calendar could not delete stay in the history, so a retry can remove them
+  await markEventsRemoved(deletedIds, opts.revertedRunId)
+  await forgetLedgerEvents(deletedIds)
+  return { deleted: deletedIds.length }
+}
+
+export async function revertImportRun(opts: { id: string }): Promise<{ deleted: number }> {
+  const run = await findImportRun(opts.id)
+  return await removeEvents({
+    calendarName: run.calendarName,
+    container: run.container,
+    sourceId: run.sourceId,
+    eventIds: run.events.filter((event) => event.removedAt === null).map((event) => event.eventId),
+    revertedRunId: run.id
+  })
+}
+
+export async function removeImportedGroup(opts: {
+  calendarName: string
+  container: CalendarContainer
+  sourceId: string | null
+  groupKey: string
+}): Promise<{ deleted: number }> {
+  return await removeEvents({
+    calendarName: opts.calendarName,
+    container: opts.container,
+    sourceId: opts.sourceId,
+    eventIds: await findImportedGroupEvents(opts)
+  })
+}
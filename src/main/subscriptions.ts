@@ -0,0 +1,238 @@
+import { randomUUID } from 'node:crypto'
+import { AppError } from './appErrors'
+import {
+  assignEventGroups,
+  DEFAULT_GROUPING,
+  groupKeyForSummary,
+  type GroupingStrategy
+} from './grouping'
+import {
+  importIcsToCalendar,
+  prepareEvents,
+  type CancelledEventMode,
+  previewIcsEvents,
+  type ParsedIcsEvent
+} from './importIcs'
+import { runExclusive } from './importQueue'
+import { readJsonStore, writeJsonStore } from './jsonStore'
+import type { CalendarContainer } from './targets'
+
+export type FeedSubscription = {
+  id: string
+  url: string
+  calendarName: string
+  container: CalendarContainer
+  sourceId: string | null
+  calendarColorHex: string
+  grouping: GroupingStrategy
+  selectedGroups: Record<string, boolean>
+  cancelled: CancelledEventMode
+  intervalMinutes: number
+  paused: boolean
+  createdAt: number
+  lastSyncedAt: number | null
+  lastError: string | null
+  importedKeys: string[]
+}
+
+export type NewFeedSubscription = {
+  url: string
+  calendarName: string
+  container: CalendarContainer
+  sourceId: string | null
+  calendarColorHex: string
+  grouping: GroupingStrategy
+  selectedGroups: Record<string, boolean>
+  cancelled: CancelledEventMode
+  intervalMinutes: number
+  importedEvents: ParsedIcsEvent[]
+}
+
+const STORE_FILE = 'subscriptions.json'
+const SCHEDULER_TICK_MS = 60 * 1000
+const MIN_INTERVAL_MINUTES = 15
+
+let subscriptions: FeedSubscription[] = []
+let schedulerTimer: NodeJS.Timeout | null = null
+let isSyncing = false
+
+function eventKey(event: ParsedIcsEvent): string {
+  return `${groupKeyForSummary(event.summary)}|${event.startMs}|${event.endMs}`
+}
+
+async function loadSubscriptions(): Promise<void> {
+  const stored = await readJsonStore<{ subscriptions?: FeedSubscription[] }>(STORE_FILE, {})
+  // Subscriptions saved before these settings existed grouped by title, removed
+  // nothing and used the container's usual account
+  subscriptions = (Array.isArray(stored.subscriptions) ? stored.subscriptions : []).map(
+    (subscription) => ({
+      ...subscription,
+      sourceId: subscription.sourceId ?? null,
+      grouping: subscription.grouping ?? DEFAULT_GROUPING,
+      cancelled: subscription.cancelled ?? 'remove'
+    })
+  )
+}
+
+async function saveSubscriptions(): Promise<void> {
+  await writeJsonStore(STORE_FILE, { subscriptions })
+}
+
+function findSubscription(id: string): FeedSubscription {
+  const subscription = subscriptions.find((item) => item.id === id)
+  if (!subscription) {
+    throw new Error('Subscription not found.')
+  }
+  return subscription
+}
+
+export function listSubscriptions(): FeedSubscription[] {
+  return subscriptions.map((subscription) => ({ ...subscription }))
+}
+
+export async function createSubscription(opts: NewFeedSubscription): Promise<FeedSubscription> {
+  const subscription: FeedSubscription = {
+    id: randomUUID(),
+    url: opts.url.trim(),
+    calendarName: opts.calendarName,
+    container: opts.container,
+    sourceId: opts.sourceId,
+    calendarColorHex: opts.calendarColorHex,
+    grouping: opts.grouping,
+    selectedGroups: { ...opts.selectedGroups },
+    cancelled: opts.cancelled,
+    intervalMinutes: Math.max(MIN_INTERVAL_MINUTES, Math.round(opts.intervalMinutes)),
+    paused: false,
+    createdAt: Date.now(),
+    lastSyncedAt: Date.now(),
+    lastError: null,
+    importedKeys: opts.importedEvents.map(eventKey)
+  }
+
+  subscriptions.push(subscription)
+  await saveSubscriptions()
+  return { ...subscription }
+}
+
+export async function setSubscriptionPaused(opts: {
+  id: string
+  paused: boolean
+}): Promise<FeedSubscription> {
+  const subscription = findSubscription(opts.id)
+  subscription.paused = opts.paused
+  await saveSubscriptions()
+  return { ...subscription }
+}
+
+export async function deleteSubscription(opts: { id: string }): Promise<void> {
+  subscriptions = subscriptions.filter((item) => item.id !== opts.id)
+  await saveSubscriptions()
+}
+
+async function syncSubscription(
+  subscription: FeedSubscription
+): Promise<{ created: number; removed: number }> {
+  try {
+    const { events, feed, decisions, rewrites, alerts } = await previewIcsEvents({
+      sources: [{ kind: 'url', url: subscription.url }]
+    })
+
+    // Imported keys are taken from the events as published, before any rewrite
+    const imported = new Set(subscription.importedKeys)
+    const groups = assignEventGroups(events, subscription.grouping)
+    const prepared = prepareEvents(events, { rewrites, alerts, groups })
+    const fresh = events.flatMap((event, index) =>
+      decisions[index].included &&
+      event.status !== 'cancelled' &&
+      (subscription.selectedGroups[groups[index].key] ?? false) &&
+      !imported.has(eventKey(event))
+        ? [index]
+        : []
+    )
+    // Events imported by an earlier sync that the feed has since cancelled
+    const cancelled = events.flatMap((event, index) =>
+      event.status === 'cancelled' && imported.has(eventKey(event)) ? [index] : []
+    )
+
+    let result = { created: 0, removed: 0 }
+    if (fresh.length > 0 || cancelled.length > 0) {
+      const outcome = await importIcsToCalendar({
+        targetCalendarName: subscription.calendarName,
+        container: subscription.container,
+        sourceId: subscription.sourceId,
+        events: fresh.map((index) => prepared[index]),
+        calendarColorHex: subscription.calendarColorHex,
+        feed,
+        cancelled: subscription.cancelled,
+        cancelledEvents: cancelled.map((index) => prepared[index])
+      })
+      // The events that did get in are in the ledger, so the next sync only adds the rest
+      if (outcome.stopped?.detail) {
+        throw new AppError(outcome.stopped.detail, outcome.stopped.message)
+      }
+      result = outcome
+      subscription.importedKeys.push(...fresh.map((index) => eventKey(events[index])))
+      // Removed events are picked up again if the feed ever restores them
+      if (subscription.cancelled === 'remove') {
+        const removedKeys = new Set(cancelled.map((index) => eventKey(events[index])))
+        subscription.importedKeys = subscription.importedKeys.filter((key) => !removedKeys.has(key))
+      }
+    }
+
+    subscription.lastError = null
+    return { created: result.created, removed: result.removed }
+  } catch (error) {
+    subscription.lastError = error instanceof Error ? error.message : String(error)
+    throw error
+  } finally {
+    subscription.lastSyncedAt = Date.now()
+    await saveSubscriptions()
+  }
+}
+
+export async function syncSubscriptionNow(opts: {
+  id: string
+}): Promise<{ created: number; removed: number }> {
+  const subscription = findSubscription(opts.id)
+  return await runExclusive(() => syncSubscription(subscription))
+}
+
+function isDue(subscription: FeedSubscription, now: number): boolean {
+  if (subscription.paused) return false
+  if (subscription.lastSyncedAt === null) return true
+  return now - subscription.lastSyncedAt >= subscription.intervalMinutes * 60 * 1000
+}
+
+async function runDueSubscriptions(): Promise<void> {
+  if (isSyncing) return
+  isSyncing = true
+
+  try {
+    const now = Date.now()
+    for (const subscription of subscriptions.filter((item) => isDue(item, now))) {
+      try {
+        await runExclusive(() => syncSubscription(subscription))
+      } catch (error) {
+        console.error(`Sync failed for ${subscription.url}:`, error)
+      }
+    }
+  } finally {
+    isSyncing = false
+  }
+}
+
+export async function startSubscriptionScheduler(): Promise<void> {
+  await loadSubscriptions()
+  if (schedulerTimer) return
+
+  schedulerTimer = setInterval(() => {
+    void runDueSubscriptions()
+  }, SCHEDULER_TICK_MS)
+  void runDueSubscriptions()
+}
+
+export function stopSubscriptionScheduler(): void {
+  if (!schedulerTimer) return
+  clearInterval(schedulerTimer)
+  schedulerTimer = null
+}
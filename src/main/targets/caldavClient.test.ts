@@ -0,0 +1,249 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  CaldavError,
+  deleteDavResource,
+  discoverCalendarHome,
+  listDavCalendars,
+  putDavEvent
+} from './caldavClient'
+
+const AUTHORIZATION = `Basic ${Buffer.from('alice:secret').toString('base64')}`
+
+type Route = {
+  status: number
+  body?: string
+  headers?: Record<string, string>
+  // Cut the connection after the headers, part way into the body
+  drop?: boolean
+}
+
+const servers: http.Server[] = []
+
+function multistatus(...responses: string[]): string {
+  return (
+    '<?xml version="1.0" encoding="utf-8"?>' +
+    '<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav" xmlns:ic="http://apple.com/ns/ical/">' +
+    responses.join('') +
+    '</d:multistatus>'
+  )
+}
+
+function propResponse(href: string, props: string): string {
+  return `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`
+}
+
+function calendarResource(href: string, name: string, extra = ''): string {
+  return propResponse(
+    href,
+    `<d:resourcetype><d:collection/><cal:calendar/></d:resourcetype><d:displayname>${name}</d:displayname>${extra}`
+  )
+}
+
+/**
+ * A CalDAV server on a free port that answers "METHOD /path" from `routes` for
+ * alice's login, 401 for any other, and 404 for anything it has no route for.
+ */
+async function serve(routes: Record<string, Route>): Promise<{
+  origin: string
+  login: { serverUrl: string; username: string; password: string }
+  seen: string[]
+}> {
+  const seen: string[] = []
+  const server = http.createServer((request, response) => {
+    const route = `${request.method} ${request.url}`
+    seen.push(route)
+    request.resume()
+    if (request.headers.authorization !== AUTHORIZATION) {
+      response.writeHead(401, { 'WWW-Authenticate': 'Basic realm="dav"' })
+      response.end()
+      return
+    }
+    const answer = routes[route] ?? { status: 404 }
+    response.writeHead(answer.status, {
+      ...(answer.body ? { 'Content-Type': 'application/xml; charset=utf-8' } : {}),
+      ...answer.headers
+    })
+    if (answer.drop) {
+      response.write('<?xml')
+      setTimeout(() => response.socket?.destroy(), 50)
+      return
+    }
+    response.end(answer.body)
+  })
+  servers.push(server)
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  return { origin, login: { serverUrl: `${origin}/`, username: 'alice', password: 'secret' }, seen }
+}
+
+afterEach(async () => {
+  const closing = servers.splice(0).map(
+    (server) =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections()
+        server.close(() => resolve())
+      })
+  )
+  await Promise.all(closing)
+})
+
+async function caldavError(promise: Promise<unknown>): Promise<CaldavError> {
+  const error = await promise.then(
+    () => null,
+    (e: unknown) => e
+  )
+  expect(error).toBeInstanceOf(CaldavError)
+  return error as CaldavError
+}
+
+describe('discoverCalendarHome', () => {
+  it('follows .well-known/caldav to the principal and its calendar home', async () => {
+    const { origin, login, seen } = await serve({
+      'PROPFIND /.well-known/caldav': { status: 301, headers: { Location: '/dav/' } },
+      'PROPFIND /dav/': {
+        status: 207,
+        body: multistatus(
+          propResponse(
+            '/dav/',
+            '<d:current-user-principal><d:href>/dav/principals/alice/</d:href></d:current-user-principal>'
+          )
+        )
+      },
+      'PROPFIND /dav/principals/alice/': {
+        status: 207,
+        body: multistatus(
+          propResponse(
+            '/dav/principals/alice/',
+            '<cal:calendar-home-set><d:href>/dav/calendars/alice/</d:href></cal:calendar-home-set>'
+          )
+        )
+      }
+    })
+
+    expect(await discoverCalendarHome(login)).toBe(`${origin}/dav/calendars/alice/`)
+    expect(seen).toEqual([
+      'PROPFIND /',
+      'PROPFIND /.well-known/caldav',
+      'PROPFIND /dav/',
+      'PROPFIND /dav/principals/alice/'
+    ])
+  })
+
+  it('takes the calendar home the server address reports directly', async () => {
+    const { origin, login, seen } = await serve({
+      'PROPFIND /': {
+        status: 207,
+        body: multistatus(
+          propResponse(
+            '/',
+            '<cal:calendar-home-set><d:href>/home/</d:href></cal:calendar-home-set>'
+          )
+        )
+      }
+    })
+
+    expect(await discoverCalendarHome(login)).toBe(`${origin}/home/`)
+    expect(seen).toEqual(['PROPFIND /'])
+  })
+
+  it('stops at a wrong password instead of trying other addresses', async () => {
+    const { login, seen } = await serve({})
+
+    const error = await caldavError(discoverCalendarHome({ ...login, password: 'wrong' }))
+
+    expect(error).toMatchObject({ code: 'unauthorized', status: 401 })
+    expect(seen).toEqual(['PROPFIND /'])
+  })
+
+  it('reports a server that is not CalDAV once every address has been tried', async () => {
+    const { login } = await serve({ 'PROPFIND /': { status: 500 } })
+
+    const error = await caldavError(discoverCalendarHome(login))
+
+    expect(error.code).toBe('notCalDav')
+  })
+})
+
+describe('CalDAV requests', () => {
+  it('lists event calendars with their colors and leaves out task lists', async () => {
+    const { origin, login } = await serve({
+      'PROPFIND /home/': {
+        status: 207,
+        body: multistatus(
+          propResponse('/home/', '<d:resourcetype><d:collection/></d:resourcetype>'),
+          calendarResource(
+            '/home/work/',
+            'Work &amp; Play',
+            '<ic:calendar-color>#ff2968ff</ic:calendar-color>'
+          ),
+          calendarResource(
+            '/home/tasks/',
+            'Tasks',
+            '<cal:supported-calendar-component-set><cal:comp name="VTODO"/></cal:supported-calendar-component-set>'
+          )
+        )
+      }
+    })
+
+    expect(await listDavCalendars(login, `${origin}/home/`)).toEqual([
+      { url: `${origin}/home/work/`, name: 'Work & Play', colorHex: '#FF2968' }
+    ])
+  })
+
+  it('maps statuses to error codes', async () => {
+    const { origin, login } = await serve({
+      'PUT /403.ics': { status: 403 },
+      'PUT /404.ics': { status: 404 },
+      'PUT /410.ics': { status: 410 },
+      'PUT /500.ics': { status: 500 }
+    })
+
+    const errors = await Promise.all(
+      [401, 403, 404, 410, 500].map((status) =>
+        caldavError(
+          putDavEvent(
+            status === 401 ? { ...login, password: 'wrong' } : login,
+            `${origin}/${status}.ics`,
+            'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n'
+          )
+        )
+      )
+    )
+
+    expect(errors.map(({ code, status }) => [code, status])).toEqual([
+      ['unauthorized', 401],
+      ['forbidden', 403],
+      ['notFound', 404],
+      ['notFound', 410],
+      ['httpStatus', 500]
+    ])
+  })
+
+  it('treats deleting a resource that is already gone as done', async () => {
+    const { origin, login } = await serve({ 'DELETE /there.ics': { status: 204 } })
+
+    expect(await deleteDavResource(login, `${origin}/there.ics`)).toBe(true)
+    expect(await deleteDavResource(login, `${origin}/gone.ics`)).toBe(false)
+  })
+
+  it('reports a connection that drops while the body is read as a network error', async () => {
+    const { origin, login } = await serve({
+      'PROPFIND /home/': { status: 207, headers: { 'Content-Length': '1000' }, drop: true }
+    })
+
+    const error = await caldavError(listDavCalendars(login, `${origin}/home/`))
+
+    expect(error).toMatchObject({ code: 'network', status: null })
+  })
+
+  it('reports a server that cannot be reached as a network error', async () => {
+    const { login } = await serve({})
+    await new Promise<void>((resolve) => servers.splice(0)[0].close(() => resolve()))
+
+    const error = await caldavError(discoverCalendarHome(login))
+
+    expect(error.code).toBe('network')
+  })
+})
@@ -0,0 +1,450 @@
+import { randomUUID } from 'node:crypto'
+
+export type CaldavErrorCode =
+  | 'notConfigured'
+  | 'invalidUrl'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'notFound'
+  | 'notCalDav'
+  | 'httpStatus'
+  | 'timeout'
+  | 'network'
+
+export class CaldavError extends Error {
+  readonly code: CaldavErrorCode
+  // HTTP status for errors that came from a response, null otherwise
+  readonly status: number | null
+
+  constructor(code: CaldavErrorCode, message: string, status: number | null = null) {
+    super(message)
+    this.name = 'CaldavError'
+    this.code = code
+    this.status = status
+  }
+}
+
+export type CaldavLogin = {
+  serverUrl: string
+  username: string
+  password: string
+}
+
+export type DavCalendar = {
+  url: string
+  name: string
+  colorHex: string | null
+}
+
+// A calendar object resource and the iCalendar text stored in it
+export type DavEvent = {
+  url: string
+  calendarData: string
+}
+
+type XmlElement = {
+  ns: string
+  name: string
+  // By their name as written; no WebDAV attribute used here has a prefix
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string
+}
+
+type DavResource = {
+  url: string
+  // Properties the server answered with 200 OK
+  props: XmlElement[]
+}
+
+const DAV = 'DAV:'
+const CALDAV = 'urn:ietf:params:xml:ns:caldav'
+const APPLE_ICAL = 'http://apple.com/ns/ical/'
+
+const NAMESPACES = `xmlns:D="${DAV}" xmlns:C="${CALDAV}" xmlns:A="${APPLE_ICAL}"`
+const TIMEOUT_MS = 30_000
+const USER_AGENT = 'CustomCalendar/0.0.1'
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity] ?? match
+    const hex = entity[1].toLowerCase() === 'x'
+    return String.fromCodePoint(parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10))
+  })
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Enough XML for WebDAV multistatus answers: elements, namespaces, text and CDATA
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { ns: '', name: '#document', attributes: {}, children: [], text: '' }
+  const stack = [{ element: root, namespaces: new Map<string, string>() }]
+  const tokens =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][^>]*>|<\/[^>]+>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g
+
+  for (const [token, cdata, tag, attributes, selfClosing, text] of xml.matchAll(tokens)) {
+    const top = stack[stack.length - 1]
+    if (cdata !== undefined) {
+      top.element.text += cdata
+    } else if (text !== undefined) {
+      top.element.text += decodeEntities(text)
+    } else if (tag !== undefined) {
+      const namespaces = new Map(top.namespaces)
+      const values: Record<string, string> = {}
+      for (const [, attribute, , double, single] of attributes.matchAll(
+        /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+      )) {
+        const value = decodeEntities(double ?? single ?? '')
+        if (attribute === 'xmlns') namespaces.set('', value)
+        else if (attribute.startsWith('xmlns:')) namespaces.set(attribute.slice(6), value)
+        else values[attribute] = value
+      }
+      const separator = tag.indexOf(':')
+      const element: XmlElement = {
+        ns: namespaces.get(separator > 0 ? tag.slice(0, separator) : '') ?? '',
+        name: tag.slice(separator + 1),
+        attributes: values,
+        children: [],
+        text: ''
+      }
+      top.element.children.push(element)
+      if (!selfClosing) stack.push({ element, namespaces })
+    } else if (token.startsWith('</') && stack.length > 1) {
+      stack.pop()
+    }
+  }
+  return root
+}
+
+function childrenOf(
+  element: XmlElement | null | undefined,
+  ns: string,
+  name: string
+): XmlElement[] {
+  return element?.children.filter((child) => child.ns === ns && child.name === name) ?? []
+}
+
+function childOf(
+  element: XmlElement | null | undefined,
+  ns: string,
+  name: string
+): XmlElement | null {
+  return childrenOf(element, ns, name)[0] ?? null
+}
+
+function propOf(resource: DavResource, ns: string, name: string): XmlElement | null {
+  return resource.props.find((prop) => prop.ns === ns && prop.name === name) ?? null
+}
+
+// The hrefs a property holds, e.g. current-user-principal, resolved against the answer's URL
+function hrefsOf(prop: XmlElement | null, base: string): string[] {
+  return childrenOf(prop, DAV, 'href').map((href) => new URL(href.text.trim(), base).href)
+}
+
+function parseMultistatus(body: string, base: string): DavResource[] {
+  const multistatus = childOf(parseXml(body), DAV, 'multistatus')
+  return childrenOf(multistatus, DAV, 'response').flatMap((response) => {
+    const href = childOf(response, DAV, 'href')
+    if (!href) return []
+    const props = childrenOf(response, DAV, 'propstat')
+      .filter((propstat) => / 2\d\d /.test(`${childOf(propstat, DAV, 'status')?.text ?? ''} `))
+      .flatMap((propstat) => childOf(propstat, DAV, 'prop')?.children ?? [])
+    return [{ url: new URL(href.text.trim(), base).href, props }]
+  })
+}
+
+function parseServerUrl(url: string): URL {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    throw new CaldavError('invalidUrl', `"${url}" is not a valid server address.`)
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new CaldavError('invalidUrl', 'The CalDAV server address must start with https://.')
+  }
+  return parsed
+}
+
+function statusError(method: string, status: number, url: URL): CaldavError {
+  switch (status) {
+    case 401:
+      return new CaldavError(
+        'unauthorized',
+        `${url.hostname} did not accept the CalDAV username and password.`,
+        status
+      )
+    case 403:
+      return new CaldavError(
+        'forbidden',
+        `${url.hostname} refused ${method} on ${url.pathname}.`,
+        status
+      )
+    case 404:
+    case 410:
+      return new CaldavError('notFound', `Nothing was found at ${url.href}.`, status)
+    default:
+      return new CaldavError(
+        'httpStatus',
+        `${url.hostname} answered ${method} with HTTP ${status}.`,
+        status
+      )
+  }
+}
+
+function connectionError(error: unknown, url: URL): CaldavError {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return new CaldavError(
+      'timeout',
+      `${url.hostname} did not respond within ${TIMEOUT_MS / 1000} seconds.`
+    )
+  }
+  const cause = (error as { cause?: NodeJS.ErrnoException }).cause
+  if (cause?.code === 'ENOTFOUND' || cause?.code === 'EAI_AGAIN') {
+    return new CaldavError('network', `Could not find the server ${url.hostname}.`)
+  }
+  const reason = cause?.message ?? (error instanceof Error ? error.message : String(error))
+  return new CaldavError('network', `Could not reach ${url.hostname}: ${reason}`)
+}
+
+/**
+ * Sends one WebDAV request with the account's login and returns the status and
+ * body. Statuses outside `expected` are thrown as a CaldavError.
+ */
+async function davRequest(
+  login: CaldavLogin,
+  method: string,
+  url: string,
+  opts: { body?: string; contentType?: string; depth?: '0' | '1'; expected: number[] }
+): Promise<{ status: number; url: string; body: string }> {
+  const target = parseServerUrl(url)
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    Authorization: `Basic ${Buffer.from(`${login.username}:${login.password}`).toString('base64')}`
+  }
+  if (opts.body !== undefined) {
+    headers['Content-Type'] = opts.contentType ?? 'application/xml; charset=utf-8'
+  }
+  if (opts.depth) headers.Depth = opts.depth
+
+  let response: Response
+  let body: string
+  try {
+    // Redirects are followed, and fetch drops the login if one leaves the server's origin
+    response = await fetch(target, {
+      method,
+      headers,
+      body: opts.body,
+      signal: AbortSignal.timeout(TIMEOUT_MS)
+    })
+    // The timeout covers the body too, which can drop or stall after the headers
+    body = await response.text()
+  } catch (error) {
+    throw connectionError(error, target)
+  }
+
+  if (!opts.expected.includes(response.status)) {
+    throw statusError(method, response.status, new URL(response.url || target.href))
+  }
+  return { status: response.status, url: response.url || target.href, body }
+}
+
+async function propfind(
+  login: CaldavLogin,
+  url: string,
+  depth: '0' | '1',
+  props: string
+): Promise<DavResource[]> {
+  const response = await davRequest(login, 'PROPFIND', url, {
+    depth,
+    body: `<?xml version="1.0" encoding="utf-8"?><D:propfind ${NAMESPACES}><D:prop>${props}</D:prop></D:propfind>`,
+    expected: [207]
+  })
+  return parseMultistatus(response.body, response.url)
+}
+
+async function calendarHomeAt(login: CaldavLogin, url: string): Promise<string | null> {
+  const [resource] = await propfind(
+    login,
+    url,
+    '0',
+    '<D:current-user-principal/><C:calendar-home-set/>'
+  )
+  if (!resource) return null
+
+  const [home] = hrefsOf(propOf(resource, CALDAV, 'calendar-home-set'), resource.url)
+  if (home) return home
+
+  const [principal] = hrefsOf(propOf(resource, DAV, 'current-user-principal'), resource.url)
+  if (!principal) return null
+  const [principalResource] = await propfind(login, principal, '0', '<C:calendar-home-set/>')
+  return principalResource
+    ? (hrefsOf(propOf(principalResource, CALDAV, 'calendar-home-set'), principal)[0] ?? null)
+    : null
+}
+
+/**
+ * Finds the collection the account's calendars live in (RFC 4791 section 6.2.1,
+ * with RFC 6764 bootstrapping): asks the address given for the user's principal
+ * and its calendar-home-set, then tries /.well-known/caldav on the same server.
+ */
+export async function discoverCalendarHome(login: CaldavLogin): Promise<string> {
+  const server = parseServerUrl(login.serverUrl)
+  const candidates = [server.href, new URL('/.well-known/caldav', server).href]
+
+  for (const candidate of candidates) {
+    try {
+      const home = await calendarHomeAt(login, candidate)
+      if (home) return home
+    } catch (error) {
+      // A wrong login or an unreachable server fails the same way at every address
+      if (!(error instanceof CaldavError) || !['notFound', 'httpStatus'].includes(error.code)) {
+        throw error
+      }
+    }
+  }
+  throw new CaldavError(
+    'notCalDav',
+    `${server.hostname} did not say where the calendars of ${login.username} are.`
+  )
+}
+
+function calendarColor(prop: XmlElement | null): string | null {
+  const value = prop?.text.trim() ?? ''
+  // Apple's calendar-color is #RRGGBB or #RRGGBBAA
+  return /^#[\da-f]{6}/i.test(value) ? value.slice(0, 7).toUpperCase() : null
+}
+
+// The event calendars in the home collection, by display name
+export async function listDavCalendars(
+  login: CaldavLogin,
+  homeUrl: string
+): Promise<DavCalendar[]> {
+  const resources = await propfind(
+    login,
+    homeUrl,
+    '1',
+    '<D:resourcetype/><D:displayname/><A:calendar-color/><C:supported-calendar-component-set/>'
+  )
+
+  return resources.flatMap((resource) => {
+    if (!childOf(propOf(resource, DAV, 'resourcetype'), CALDAV, 'calendar')) return []
+    // Calendars that say which components they hold must allow events
+    const components = childrenOf(
+      propOf(resource, CALDAV, 'supported-calendar-component-set'),
+      CALDAV,
+      'comp'
+    )
+    if (
+      components.length > 0 &&
+      !components.some((comp) => comp.attributes.name?.toUpperCase() === 'VEVENT')
+    ) {
+      return []
+    }
+    const path = decodeURIComponent(new URL(resource.url).pathname.replace(/\/$/, ''))
+    return [
+      {
+        url: resource.url,
+        name: propOf(resource, DAV, 'displayname')?.text.trim() || path.split('/').pop() || path,
+        colorHex: calendarColor(propOf(resource, APPLE_ICAL, 'calendar-color'))
+      }
+    ]
+  })
+}
+
+function calendarProps(name: string | null, colorHex: string | null): string {
+  return (
+    (name === null ? '' : `<D:displayname>${escapeXml(name)}</D:displayname>`) +
+    (colorHex === null ? '' : `<A:calendar-color>${escapeXml(colorHex)}</A:calendar-color>`)
+  )
+}
+
+// Creates a calendar for events in the home collection with MKCALENDAR (RFC 4791 section 5.3.1)
+export async function makeDavCalendar(
+  login: CaldavLogin,
+  homeUrl: string,
+  name: string,
+  colorHex: string
+): Promise<DavCalendar> {
+  const home = homeUrl.endsWith('/') ? homeUrl : `${homeUrl}/`
+  const url = new URL(`${randomUUID()}/`, home).href
+  await davRequest(login, 'MKCALENDAR', url, {
+    body:
+      `<?xml version="1.0" encoding="utf-8"?><C:mkcalendar ${NAMESPACES}><D:set><D:prop>` +
+      calendarProps(name, colorHex) +
+      '<C:supported-calendar-component-set><C:comp name="VEVENT"/></C:supported-calendar-component-set>' +
+      '</D:prop></D:set></C:mkcalendar>',
+    expected: [201]
+  })
+  return { url, name, colorHex }
+}
+
+export async function setDavCalendarColor(
+  login: CaldavLogin,
+  calendarUrl: string,
+  colorHex: string
+): Promise<void> {
+  await davRequest(login, 'PROPPATCH', calendarUrl, {
+    body:
+      `<?xml version="1.0" encoding="utf-8"?><D:propertyupdate ${NAMESPACES}><D:set><D:prop>` +
+      calendarProps(null, colorHex) +
+      '</D:prop></D:set></D:propertyupdate>',
+    expected: [207, 200]
+  })
+}
+
+function formatUtc(ms: number): string {
+  return new Date(ms)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+// Events overlapping the range, read with a calendar-query REPORT (RFC 4791 section 7.8)
+export async function queryDavEvents(
+  login: CaldavLogin,
+  calendarUrl: string,
+  range: { startMs: number; endMs: number }
+): Promise<DavEvent[]> {
+  const response = await davRequest(login, 'REPORT', calendarUrl, {
+    depth: '1',
+    body:
+      `<?xml version="1.0" encoding="utf-8"?><C:calendar-query ${NAMESPACES}>` +
+      '<D:prop><C:calendar-data/></D:prop>' +
+      '<C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT">' +
+      `<C:time-range start="${formatUtc(range.startMs)}" end="${formatUtc(range.endMs)}"/>` +
+      '</C:comp-filter></C:comp-filter></C:filter></C:calendar-query>',
+    expected: [207]
+  })
+
+  return parseMultistatus(response.body, response.url).flatMap((resource) => {
+    const data = propOf(resource, CALDAV, 'calendar-data')
+    return data ? [{ url: resource.url, calendarData: data.text }] : []
+  })
+}
+
+export async function putDavEvent(
+  login: CaldavLogin,
+  url: string,
+  calendarData: string
+): Promise<void> {
+  await davRequest(login, 'PUT', url, {
+    body: calendarData,
+    contentType: 'text/calendar; charset=utf-8',
+    expected: [200, 201, 204]
+  })
+}
+
+// False when the resource was already gone
+export async function deleteDavResource(login: CaldavLogin, url: string): Promise<boolean> {
+  const response = await davRequest(login, 'DELETE', url, { expected: [200, 204, 404, 410] })
+  return response.status !== 404 && response.status !== 410
+}
@@ -0,0 +1,95 @@
+import http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { ParsedIcsEvent } from '../importIcs'
+import { caldavTarget } from './caldavTarget'
+
+const account = vi.hoisted(() => ({
+  serverUrl: '',
+  username: 'alice',
+  password: 'secret',
+  calendarHomeUrl: ''
+}))
+
+vi.mock('../caldavAccount', () => ({ getCaldavAccount: async () => account }))
+
+const event: ParsedIcsEvent = {
+  summary: 'Standup',
+  description: '',
+  location: '',
+  isAllDay: false,
+  startMs: Date.UTC(2026, 2, 2, 9),
+  endMs: Date.UTC(2026, 2, 2, 9, 15),
+  startYMD: null,
+  endYMD: null,
+  timeKind: 'utc',
+  tzid: null,
+  timeZone: null,
+  startWall: [2026, 3, 2, 9, 0, 0],
+  endWall: [2026, 3, 2, 9, 15, 0],
+  uid: 'standup@test',
+  recurrenceId: null,
+  categories: [],
+  alarms: [],
+  url: null,
+  status: null,
+  organizer: null,
+  attendees: [],
+  transparency: 'opaque',
+  sequence: 0,
+  lastModifiedMs: null,
+  feed: 'text:pasted'
+}
+
+let server: http.Server | null = null
+
+afterEach(async () => {
+  server?.closeAllConnections()
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()))
+  server = null
+})
+
+// One calendar, "Work", that takes every PUT and answers DELETE with `deleteStatus`
+async function serve(deleteStatus: number): Promise<{ origin: string; seen: string[] }> {
+  const seen: string[] = []
+  server = http.createServer((request, response) => {
+    seen.push(`${request.method} ${request.url}`)
+    request.resume()
+    if (request.method === 'PROPFIND') {
+      response.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' })
+      response.end(
+        '<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">' +
+          '<d:response><d:href>/home/work/</d:href><d:propstat><d:prop>' +
+          '<d:resourcetype><d:collection/><cal:calendar/></d:resourcetype><d:displayname>Work</d:displayname>' +
+          '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response></d:multistatus>'
+      )
+      return
+    }
+    response.writeHead(request.method === 'DELETE' ? deleteStatus : 201)
+    response.end()
+  })
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve))
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  account.serverUrl = `${origin}/`
+  account.calendarHomeUrl = `${origin}/home/`
+  return { origin, seen }
+}
+
+describe('caldavTarget.writeEvents', () => {
+  it.each([403, 500])(
+    'keeps an update whose old copy the server answers %i to',
+    async (deleteStatus) => {
+      const { origin, seen } = await serve(deleteStatus)
+      const previousId = `${origin}/home/work/old.ics`
+
+      const result = await caldavTarget.writeEvents(
+        { name: 'Work', sourceId: null, colorHex: '#0A84FF' },
+        { create: [], update: [{ eventId: previousId, event }], delete: [] }
+      )
+
+      expect(result.updatedIds).toHaveLength(1)
+      expect(result.updatedIds[0]).toMatch(new RegExp(`^${origin}/home/work/[0-9a-f]{40}\\.ics$`))
+      expect(seen).toContain('DELETE /home/work/old.ics')
+    }
+  )
+})
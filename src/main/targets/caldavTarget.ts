@@ -0,0 +1,233 @@
+import ical, { type VEvent } from 'node-ical'
+import { createHash } from 'node:crypto'
+import { AppError } from '../appErrors'
+import { getCaldavAccount, type CaldavAccount } from '../caldavAccount'
+import { eventUid, serializeIcsEvents } from '../icsExport'
+import type { ParsedIcsEvent } from '../importIcs'
+import {
+  CaldavError,
+  deleteDavResource,
+  listDavCalendars,
+  makeDavCalendar,
+  putDavEvent,
+  queryDavEvents,
+  setDavCalendarColor,
+  type DavCalendar
+} from './caldavClient'
+import type { CalendarRef, CalendarTarget, ExistingEvent } from './calendarTarget'
+
+function sourceTitle(account: CaldavAccount): string {
+  return `${account.username} on ${new URL(account.calendarHomeUrl).hostname}`
+}
+
+// The saved account is the one source, named by its calendar home; null picks it too
+function isSource(account: CaldavAccount, sourceId: string | null): boolean {
+  return sourceId === null || sourceId === account.calendarHomeUrl
+}
+
+async function savedAccount(sourceId: string | null): Promise<CaldavAccount> {
+  const account = await getCaldavAccount()
+  if (!account) throw new CaldavError('notConfigured', 'No CalDAV account is set up.')
+  if (!isSource(account, sourceId)) {
+    throw new AppError(
+      { code: 'sourceNotFound', container: 'caldav', available: [sourceTitle(account)] },
+      'The CalDAV account this calendar was in is no longer connected.'
+    )
+  }
+  return account
+}
+
+async function findCalendar(account: CaldavAccount, name: string): Promise<DavCalendar | null> {
+  const calendars = await listDavCalendars(account, account.calendarHomeUrl)
+  return calendars.find((calendar) => calendar.name === name) ?? null
+}
+
+async function ensure(account: CaldavAccount, calendar: CalendarRef): Promise<DavCalendar> {
+  const existing = await findCalendar(account, calendar.name)
+  if (!existing) {
+    return await makeDavCalendar(account, account.calendarHomeUrl, calendar.name, calendar.colorHex)
+  }
+  if (existing.colorHex !== calendar.colorHex.toUpperCase()) {
+    // Servers without Apple's color property keep the calendar as it is
+    await setDavCalendarColor(account, existing.url, calendar.colorHex).catch(() => undefined)
+  }
+  return existing
+}
+
+// Every occurrence is a resource of its own, so expanded repeats need a UID of their own.
+// Both stay the same across imports, which is what makes a second PUT an update.
+function resourceUid(event: ParsedIcsEvent): string {
+  const uid = eventUid(event)
+  if (!event.recurrenceId) return uid
+  return `${uid}-${createHash('sha1').update(event.recurrenceId).digest('hex').slice(0, 12)}`
+}
+
+function resourceUrl(calendar: DavCalendar, uid: string): string {
+  const base = calendar.url.endsWith('/') ? calendar.url : `${calendar.url}/`
+  return new URL(`${createHash('sha1').update(uid).digest('hex')}.ics`, base).href
+}
+
+// Only the account's own server is sent its login, whatever an event id says
+function onServer(account: CaldavAccount, eventId: string): boolean {
+  try {
+    return new URL(eventId).origin === new URL(account.calendarHomeUrl).origin
+  } catch {
+    return false
+  }
+}
+
+// A single event the server would not take; the login and connection still work
+function isRefused(error: unknown): boolean {
+  return (
+    error instanceof CaldavError &&
+    error.status !== null &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 401
+  )
+}
+
+// The event's resource URL, or an empty id when the server refused it
+async function putEvent(
+  account: CaldavAccount,
+  calendar: DavCalendar,
+  event: ParsedIcsEvent,
+  previousId: string | null
+): Promise<string> {
+  const uid = resourceUid(event)
+  const url = resourceUrl(calendar, uid)
+  try {
+    await putDavEvent(account, url, serializeIcsEvents([{ ...event, uid, recurrenceId: null }]))
+  } catch (error) {
+    if (isRefused(error)) return ''
+    throw error
+  }
+  // A UID derived from changed content moves the event to a new resource. The event is
+  // already written there, so an old copy that cannot be removed must not fail the batch.
+  if (previousId && previousId !== url) {
+    await deleteEvent(account, previousId).catch(() => '')
+  }
+  return url
+}
+
+// The event id once its resource is gone, or an empty id when the server kept it
+async function deleteEvent(account: CaldavAccount, eventId: string): Promise<string> {
+  if (!onServer(account, eventId)) return ''
+  try {
+    await deleteDavResource(account, eventId)
+  } catch (error) {
+    if (isRefused(error)) return ''
+    throw error
+  }
+  return eventId
+}
+
+function summaryText(value: unknown): string {
+  if (typeof value === 'string') return value
+  const val = (value as { val?: unknown } | null)?.val
+  return typeof val === 'string' ? val : ''
+}
+
+async function readEvents(
+  url: string,
+  calendarData: string,
+  range: { startMs: number; endMs: number }
+): Promise<ExistingEvent[]> {
+  let components: Record<string, unknown>
+  try {
+    components = (await ical.async.parseICS(calendarData)) as Record<string, unknown>
+  } catch {
+    // One unreadable event should not hide the rest of the calendar
+    return []
+  }
+
+  return Object.values(components).flatMap((component) => {
+    const event = component as VEvent
+    if (event?.type !== 'VEVENT' || !(event.start instanceof Date)) return []
+    const instances = ical.expandRecurringEvent(event, {
+      from: new Date(range.startMs),
+      to: new Date(range.endMs),
+      expandOngoing: true
+    })
+    return instances.map((instance) => ({
+      eventId: url,
+      summary: summaryText(instance.summary),
+      startMs: instance.start.getTime(),
+      endMs: instance.end.getTime(),
+      isAllDay: instance.isFullDay
+    }))
+  })
+}
+
+/**
+ * Any CalDAV server (RFC 4791), such as Nextcloud, Fastmail or Radicale. Each
+ * event is stored as its own .ics resource named after its UID, and its URL is
+ * the event id. Needs no platform support, so it works on Linux and Windows too.
+ */
+export const caldavTarget: CalendarTarget = {
+  container: 'caldav',
+  label: 'CalDAV',
+  capabilities: {
+    calendarColors: true,
+    eventTimeZones: true,
+    eventAvailability: true,
+    persistent: true
+  },
+
+  async listCalendars() {
+    const account = await getCaldavAccount()
+    if (!account) return []
+    const calendars = await listDavCalendars(account, account.calendarHomeUrl)
+    return calendars.map(({ name, colorHex }) => ({ name, colorHex }))
+  },
+
+  async listSources() {
+    const account = await getCaldavAccount()
+    if (!account) return []
+    const calendars = await listDavCalendars(account, account.calendarHomeUrl)
+    return [
+      {
+        id: account.calendarHomeUrl,
+        title: sourceTitle(account),
+        calendars: calendars.map(({ name, colorHex }) => ({ name, colorHex }))
+      }
+    ]
+  },
+
+  async ensureCalendar(calendar) {
+    await ensure(await savedAccount(calendar.sourceId), calendar)
+  },
+
+  async listEvents({ name, sourceId }, range) {
+    const account = await getCaldavAccount()
+    if (!account || !isSource(account, sourceId)) return []
+    const calendar = await findCalendar(account, name)
+    if (!calendar) return []
+
+    const events = await queryDavEvents(account, calendar.url, range)
+    const existing = await Promise.all(
+      events.map((event) => readEvents(event.url, event.calendarData, range))
+    )
+    return existing.flat()
+  },
+
+  async writeEvents(calendar, changes) {
+    const account = await savedAccount(calendar.sourceId)
+    const hasWrites = changes.create.length > 0 || changes.update.length > 0
+    const target = hasWrites ? await ensure(account, calendar) : null
+
+    // Deletions go first, so a replacement can take over the resource its old copy had
+    const deletedIds: string[] = []
+    for (const eventId of changes.delete) deletedIds.push(await deleteEvent(account, eventId))
+    if (!target) return { createdIds: [], updatedIds: [], deletedIds }
+
+    const updatedIds: string[] = []
+    for (const { eventId, event } of changes.update)
+      updatedIds.push(await putEvent(account, target, event, eventId))
+    const createdIds: string[] = []
+    for (const event of changes.create)
+      createdIds.push(await putEvent(account, target, event, null))
+
+    return { createdIds, updatedIds, deletedIds }
+  }
+}
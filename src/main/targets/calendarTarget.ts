@@ -0,0 +1,84 @@
+import type { ParsedIcsEvent } from '../importIcs'
+
+export type CalendarContainer = 'local' | 'icloud' | 'caldav' | 'memory'
+
+export type CalendarTargetCapabilities = {
+  // Calendar color can be set when the calendar is created or written to
+  calendarColors: boolean
+  // Zoned events keep their source time zone instead of a fixed instant
+  eventTimeZones: boolean
+  // TRANSP is written as free/busy availability
+  eventAvailability: boolean
+  // Events survive an app restart
+  persistent: boolean
+}
+
+export type TargetCalendar = {
+  name: string
+  colorHex: string | null
+}
+
+// Where a calendar is: its name within an account of the target
+export type CalendarLocation = {
+  name: string
+  // An id from listSources, or null for the account the target picks by default
+  sourceId: string | null
+}
+
+export type CalendarRef = CalendarLocation & {
+  colorHex: string
+}
+
+// An account a target can write to, with the calendars already in it
+export type CalendarSource = {
+  id: string | null
+  title: string
+  calendars: TargetCalendar[]
+}
+
+export type EventChanges = {
+  create: ParsedIcsEvent[]
+  update: { eventId: string; event: ParsedIcsEvent }[]
+  delete: string[]
+}
+
+// An event already in a calendar, as read back for duplicate checks
+export type ExistingEvent = {
+  eventId: string
+  summary: string
+  startMs: number
+  endMs: number
+  isAllDay: boolean
+}
+
+export type EventRange = {
+  startMs: number
+  endMs: number
+}
+
+export type EventChangeResult = {
+  // Same order as EventChanges.create / EventChanges.update; an empty id marks
+  // an event the calendar refused, while the rest of the batch is still written
+  createdIds: string[]
+  updatedIds: string[]
+  // Same order as EventChanges.delete: the id once the event is gone, including
+  // events already deleted by hand, or an empty id when it could not be deleted
+  deletedIds: string[]
+}
+
+/**
+ * A place events can be imported into. Changes are applied in batches so
+ * native targets pay their start-up cost once per batch, not once per event.
+ */
+export type CalendarTarget = {
+  container: CalendarContainer
+  label: string
+  capabilities: CalendarTargetCapabilities
+  listCalendars(): Promise<TargetCalendar[]>
+  listSources(): Promise<CalendarSource[]>
+  ensureCalendar(calendar: CalendarRef): Promise<void>
+  // Events overlapping the range; empty when the calendar does not exist
+  listEvents(calendar: CalendarLocation, range: EventRange): Promise<ExistingEvent[]>
+  // Creates the calendar only when the batch creates or updates events
+  writeEvents(calendar: CalendarRef, changes: EventChanges): Promise<EventChangeResult>
+}
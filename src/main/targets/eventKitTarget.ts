@@ -0,0 +1,466 @@
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import type {
+  CalendarSource,
+  CalendarTarget,
+  EventChangeResult,
+  ExistingEvent,
+  TargetCalendar
+} from './calendarTarget'
+import { createHelperClient } from './helperClient'
+import {
+  eventsPayload,
+  listPayload,
+  nativeFailure,
+  NO_CHANGES,
+  writePayload,
+  type NativePayload
+} from './native'
+
+// Answers the commands in handle() below; see createHelperClient for the protocol
+const HELPER_SCRIPT = `
+import Foundation
+import EventKit
+import CoreGraphics
+
+struct AlarmPayload: Codable {
+  let kind: String
+  let minutes: Double?
+  let related: String?
+  let atMs: Double?
+}
+
+struct EventPayload: Codable {
+  let summary: String
+  let description: String
+  let location: String
+  let isAllDay: Bool
+  let startMs: Double
+  let endMs: Double
+  let startYMD: [Int]?
+  let endYMD: [Int]?
+  let timeKind: String
+  let timeZone: String?
+  let startWall: [Int]
+  let endWall: [Int]
+  let alarms: [AlarmPayload]
+  let url: String?
+  let transparency: String
+}
+
+struct UpdatePayload: Codable {
+  let eventId: String
+  let event: EventPayload
+}
+
+struct RangePayload: Codable {
+  let startMs: Double
+  let endMs: Double
+}
+
+struct Payload: Codable {
+  let calendarName: String
+  let events: [EventPayload]
+  let updates: [UpdatePayload]
+  let deletions: [String]
+  let container: String
+  let sourceId: String?
+  let calendarColorHex: String
+  let range: RangePayload?
+}
+
+struct Request: Decodable {
+  let command: String
+  let params: Payload
+}
+
+// A failure the app can explain, answered as {"id":1,"error":{"code":"...","message":"..."}}
+struct HelperFailure: Error {
+  let code: String
+  let message: String
+  var extra: [String: Any] = [:]
+}
+
+func colorFromHex(_ rawHex: String) -> CGColor? {
+  let hex = rawHex.trimmingCharacters(in: .whitespacesAndNewlines)
+  guard hex.count == 7, hex.hasPrefix("#") else { return nil }
+  let start = hex.index(after: hex.startIndex)
+  let rgbHex = String(hex[start...])
+  guard let value = UInt32(rgbHex, radix: 16) else { return nil }
+  let red = CGFloat((value >> 16) & 0xFF) / 255.0
+  let green = CGFloat((value >> 8) & 0xFF) / 255.0
+  let blue = CGFloat(value & 0xFF) / 255.0
+  return CGColor(red: red, green: green, blue: blue, alpha: 1.0)
+}
+
+func hexFromColor(_ color: CGColor?) -> Any {
+  guard let color = color,
+        let space = CGColorSpace(name: CGColorSpace.sRGB),
+        let rgb = color.converted(to: space, intent: .defaultIntent, options: nil),
+        let c = rgb.components, c.count >= 3 else { return NSNull() }
+  return String(format: "#%02X%02X%02X", Int((c[0] * 255).rounded()), Int((c[1] * 255).rounded()), Int((c[2] * 255).rounded()))
+}
+
+func wallComponents(_ wall: [Int]) -> DateComponents {
+  return DateComponents(year: wall[0], month: wall[1], day: wall[2], hour: wall[3], minute: wall[4], second: wall[5])
+}
+
+let store = EKEventStore()
+var accessGranted = false
+
+// Asked again until granted, so allowing access in System Settings works without a restart
+func requireAccess() throws {
+  if accessGranted { return }
+  let sema = DispatchSemaphore(value: 0)
+  var accessError: Error?
+  store.requestAccess(to: .event) { granted, error in
+    accessGranted = granted
+    accessError = error
+    sema.signal()
+  }
+  sema.wait()
+  if !accessGranted {
+    throw HelperFailure(code: "permission", message: "Calendar access denied: \\(accessError?.localizedDescription ?? "Unknown error")")
+  }
+}
+
+func sourceLabel(_ source: EKSource) -> String {
+  return "\\(source.title) (\\(source.sourceType.rawValue))"
+}
+
+func pickSource(_ container: String) -> EKSource? {
+  let sources = store.sources
+  switch container.lowercased() {
+  case "local":
+    if let source = sources.first(where: { $0.sourceType == .local }) {
+      return source
+    }
+    if let source = sources.first(where: {
+      let title = $0.title.lowercased()
+      return title.contains("on my mac") || title.contains("local") || title == "other"
+    }) {
+      return source
+    }
+    return sources.first(where: { $0.sourceType != .calDAV && $0.sourceType != .subscribed })
+  case "icloud":
+    if let icloud = sources.first(where: { $0.sourceType == .calDAV && $0.title.lowercased().contains("icloud") }) {
+      return icloud
+    }
+    return sources.first(where: { $0.sourceType == .calDAV })
+  default:
+    return nil
+  }
+}
+
+// The account picked in the app, or a guess from the container when none was
+func requireSource(_ payload: Payload) throws -> EKSource {
+  let chosen: EKSource?
+  if let sourceId = payload.sourceId {
+    chosen = store.source(withIdentifier: sourceId)
+  } else {
+    chosen = pickSource(payload.container)
+  }
+  guard let source = chosen else {
+    let sources = store.sources
+    throw HelperFailure(
+      code: "sourceNotFound",
+      message: "No matching calendar source for \\(payload.sourceId ?? payload.container). Available: \\(sources.map(sourceLabel).joined(separator: ", "))",
+      extra: ["available": sources.map { $0.title }]
+    )
+  }
+  return source
+}
+
+func findCalendar(_ name: String, in source: EKSource) -> EKCalendar? {
+  return store.calendars(for: .event).first(where: { $0.title == name && $0.source.sourceIdentifier == source.sourceIdentifier })
+}
+
+// Local calendars are left out; the app writes those through Calendar.app as On My Mac
+func listSources() -> Any {
+  let writable = store.calendars(for: .event).filter { $0.allowsContentModifications }
+  return store.sources
+    .filter { ![.local, .subscribed, .birthdays].contains($0.sourceType) }
+    .map { source in
+      [
+        "id": source.sourceIdentifier,
+        "title": source.title,
+        "calendars": writable
+          .filter { $0.source.sourceIdentifier == source.sourceIdentifier }
+          .map { ["name": $0.title, "colorHex": hexFromColor($0.cgColor)] as [String: Any] }
+      ] as [String: Any]
+    }
+}
+
+func listCalendars(_ payload: Payload) throws -> Any {
+  let source = try requireSource(payload)
+  return store.calendars(for: .event)
+    .filter { $0.source.sourceIdentifier == source.sourceIdentifier }
+    .map { ["name": $0.title, "colorHex": hexFromColor($0.cgColor)] as [String: Any] }
+}
+
+func listEvents(_ payload: Payload) throws -> Any {
+  let source = try requireSource(payload)
+  guard let calendar = findCalendar(payload.calendarName, in: source), let range = payload.range else {
+    return [Any]()
+  }
+  let predicate = store.predicateForEvents(
+    withStart: Date(timeIntervalSince1970: range.startMs / 1000.0),
+    end: Date(timeIntervalSince1970: range.endMs / 1000.0),
+    calendars: [calendar]
+  )
+  return store.events(matching: predicate).map {
+    [
+      "eventId": $0.eventIdentifier ?? "",
+      "summary": $0.title ?? "",
+      "startMs": $0.startDate.timeIntervalSince1970 * 1000,
+      "endMs": $0.endDate.timeIntervalSince1970 * 1000,
+      "isAllDay": $0.isAllDay
+    ] as [String: Any]
+  }
+}
+
+func ensureCalendar(_ payload: Payload) throws -> EKCalendar {
+  let source = try requireSource(payload)
+  let calendar: EKCalendar
+  if let existing = findCalendar(payload.calendarName, in: source) {
+    calendar = existing
+  } else {
+    calendar = EKCalendar(for: .event, eventStore: store)
+    calendar.title = payload.calendarName
+    calendar.source = source
+    try store.saveCalendar(calendar, commit: true)
+  }
+  if let chosenColor = colorFromHex(payload.calendarColorHex) {
+    do {
+      calendar.cgColor = chosenColor
+      try store.saveCalendar(calendar, commit: true)
+    } catch {}
+  }
+  return calendar
+}
+
+let cal = Calendar.current
+
+func apply(_ e: EventPayload, to event: EKEvent) {
+  event.title = e.summary
+  event.location = e.location.isEmpty ? nil : e.location
+  event.notes = e.description.isEmpty ? nil : e.description
+  event.url = e.url.flatMap { URL(string: $0) }
+  event.availability = e.transparency == "transparent" ? .free : .busy
+  if e.isAllDay, let start = e.startYMD, let end = e.endYMD, start.count == 3, end.count == 3 {
+    let startComponents = DateComponents(year: start[0], month: start[1], day: start[2])
+    let endComponents = DateComponents(year: end[0], month: end[1], day: end[2])
+    event.startDate = cal.date(from: startComponents)
+    event.endDate = cal.date(from: endComponents)
+    event.isAllDay = true
+  } else if e.timeKind == "floating", e.startWall.count == 6, e.endWall.count == 6 {
+    // Floating events have no zone and keep their wall-clock time when the user travels
+    event.timeZone = nil
+    event.startDate = cal.date(from: wallComponents(e.startWall))
+    event.endDate = cal.date(from: wallComponents(e.endWall))
+    event.isAllDay = false
+  } else {
+    event.startDate = Date(timeIntervalSince1970: e.startMs / 1000.0)
+    event.endDate = Date(timeIntervalSince1970: e.endMs / 1000.0)
+    event.isAllDay = false
+    if let zoneId = e.timeZone, let zone = TimeZone(identifier: zoneId) {
+      event.timeZone = zone
+    }
+  }
+  // Assigning the whole list replaces alarms an earlier import set
+  event.alarms = e.alarms.map { a -> EKAlarm in
+    if a.kind == "absolute", let atMs = a.atMs {
+      return EKAlarm(absoluteDate: Date(timeIntervalSince1970: atMs / 1000.0))
+    }
+    var offset = (a.minutes ?? 0) * 60
+    // EventKit offsets always count from the start
+    if a.related == "end" {
+      offset += (e.endMs - e.startMs) / 1000.0
+    }
+    return EKAlarm(relativeOffset: offset)
+  }
+}
+
+// Events already gone count as deleted; one EventKit refuses is reported with an empty id
+func removeEvents(_ eventIds: [String]) -> [String] {
+  return eventIds.map { eventId in
+    guard let event = store.event(withIdentifier: eventId) else { return eventId }
+    return (try? store.remove(event, span: .thisEvent, commit: false)) != nil ? eventId : ""
+  }
+}
+
+func writeEvents(_ payload: Payload) throws -> Any {
+  let calendar = try ensureCalendar(payload)
+
+  func createEvent(_ e: EventPayload) throws -> EKEvent {
+    let event = EKEvent(eventStore: store)
+    event.calendar = calendar
+    apply(e, to: event)
+    try store.save(event, span: .thisEvent, commit: false)
+    return event
+  }
+
+  let deletedIds = removeEvents(payload.deletions)
+
+  // An event EventKit refuses is reported with an empty id; the rest of the batch still saves
+  var updatedEvents: [EKEvent?] = []
+  for u in payload.updates {
+    if let event = store.event(withIdentifier: u.eventId) {
+      apply(u.event, to: event)
+      do {
+        try store.save(event, span: .thisEvent, commit: false)
+        updatedEvents.append(event)
+      } catch {
+        updatedEvents.append(nil)
+      }
+    } else {
+      // Recreate events the user removed by hand since the last import
+      updatedEvents.append(try? createEvent(u.event))
+    }
+  }
+
+  var createdEvents: [EKEvent?] = []
+  for e in payload.events {
+    createdEvents.append(try? createEvent(e))
+  }
+
+  try store.commit()
+  // Identifiers are only final once the store has committed
+  return [
+    "createdIds": createdEvents.map { $0?.eventIdentifier ?? "" },
+    "updatedIds": updatedEvents.map { $0?.eventIdentifier ?? "" },
+    "deletedIds": deletedIds
+  ] as [String: Any]
+}
+
+// Delete-only batches never create a missing calendar
+func deleteEvents(_ payload: Payload) throws -> Any {
+  let deletedIds = removeEvents(payload.deletions)
+  try store.commit()
+  return ["createdIds": [String](), "updatedIds": [String](), "deletedIds": deletedIds]
+    as [String: Any]
+}
+
+func handle(_ request: Request) throws -> Any {
+  try requireAccess()
+  // Drop anything a failed request left unsaved and pick up changes made in Calendar since
+  store.reset()
+  store.refreshSourcesIfNecessary()
+
+  switch request.command {
+  case "listSources":
+    return listSources()
+  case "listCalendars":
+    return try listCalendars(request.params)
+  case "listEvents":
+    return try listEvents(request.params)
+  case "ensureCalendar":
+    _ = try ensureCalendar(request.params)
+    return [String: Any]()
+  case "writeEvents":
+    return try writeEvents(request.params)
+  case "deleteEvents":
+    return try deleteEvents(request.params)
+  default:
+    throw HelperFailure(code: "unknownCommand", message: "Unknown command \\(request.command)")
+  }
+}
+
+func send(_ response: [String: Any]) {
+  guard let data = try? JSONSerialization.data(withJSONObject: response, options: []) else { return }
+  FileHandle.standardOutput.write(data + Data("\\n".utf8))
+}
+
+// One request per line in, one answer per line out, until the app closes stdin
+while let line = readLine() {
+  let data = Data(line.utf8)
+  let id = ((try? JSONSerialization.jsonObject(with: data)) as? [String: Any])?["id"] ?? NSNull()
+  do {
+    let request = try JSONDecoder().decode(Request.self, from: data)
+    let result = try handle(request)
+    send(["id": id, "result": result])
+  } catch let failure as HelperFailure {
+    var error = failure.extra
+    error["code"] = failure.code
+    error["message"] = failure.message
+    send(["id": id, "error": error])
+  } catch {
+    send(["id": id, "error": ["code": "failed", "message": error.localizedDescription]])
+  }
+}
+`
+
+type HelperCommand =
+  | 'listSources'
+  | 'listCalendars'
+  | 'listEvents'
+  | 'ensureCalendar'
+  | 'writeEvents'
+  | 'deleteEvents'
+
+// Compiled once when it starts, which takes a while, then kept running for the session
+const helper = createHelperClient({
+  name: 'calendar helper',
+  timeoutMs: 60_000,
+  startupMs: 120_000,
+  async launch() {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'CustomCal-'))
+    const scriptPath = path.join(dir, 'helper.swift')
+    await fs.writeFile(scriptPath, HELPER_SCRIPT, 'utf8')
+    return {
+      command: '/usr/bin/swift',
+      args: [scriptPath],
+      cleanup: () => fs.rm(dir, { recursive: true, force: true })
+    }
+  }
+})
+
+async function callHelper<T>(command: HelperCommand, payload: NativePayload): Promise<T> {
+  try {
+    return await helper.request<T>(command, payload)
+  } catch (error) {
+    throw nativeFailure(error, '/usr/bin/swift', 'icloud')
+  }
+}
+
+export function stopEventKitHelper(): void {
+  helper.stop()
+}
+
+// EventKit through a long-lived Swift helper; slow to start once, but it keeps
+// source time zones and can address iCloud, Exchange and CalDAV accounts directly
+export const eventKitTarget: CalendarTarget = {
+  container: 'icloud',
+  label: 'Calendar accounts',
+  capabilities: {
+    calendarColors: true,
+    eventTimeZones: true,
+    eventAvailability: true,
+    persistent: true
+  },
+
+  async listCalendars() {
+    return await callHelper<TargetCalendar[]>('listCalendars', listPayload('icloud'))
+  },
+
+  async listSources() {
+    return await callHelper<CalendarSource[]>('listSources', listPayload('icloud'))
+  },
+
+  async ensureCalendar(calendar) {
+    await callHelper('ensureCalendar', writePayload('icloud', calendar, NO_CHANGES, true))
+  },
+
+  async listEvents(calendar, range) {
+    return await callHelper<ExistingEvent[]>('listEvents', eventsPayload('icloud', calendar, range))
+  },
+
+  async writeEvents(calendar, changes) {
+    const deleteOnly = changes.create.length === 0 && changes.update.length === 0
+    return await callHelper<EventChangeResult>(
+      deleteOnly ? 'deleteEvents' : 'writeEvents',
+      writePayload('icloud', calendar, changes)
+    )
+  }
+}
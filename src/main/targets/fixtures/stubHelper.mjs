@@ -0,0 +1,40 @@
+// Stands in for the native calendar helpers in helperClient tests. Speaks the
+// same line-delimited JSON, with commands that misbehave in the ways real ones can.
+import { createInterface } from 'node:readline'
+
+process.stdout.write('stub helper starting\n')
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+  const { id, command, params } = JSON.parse(line)
+  const lines = []
+  let delayMs = 0
+
+  switch (command) {
+    case 'echo':
+      lines.push({ id, result: { params, pid: process.pid } })
+      delayMs = params?.delayMs ?? 0
+      break
+    case 'fail':
+      lines.push({
+        id,
+        error: { code: 'sourceNotFound', message: 'No such account.', available: ['Home'] }
+      })
+      break
+    case 'noisy':
+      lines.push('warning: not an answer', '{"id":', { id: id + 1000, result: 'stray' })
+      lines.push({ id, result: 'answer' })
+      break
+    case 'crash':
+      process.stderr.write('fatal: lost the calendar store\n')
+      process.exit(3)
+      break
+    case 'hang':
+      return
+  }
+
+  setTimeout(() => {
+    for (const item of lines) {
+      process.stdout.write(`${typeof item === 'string' ? item : JSON.stringify(item)}\n`)
+    }
+  }, delayMs)
+})
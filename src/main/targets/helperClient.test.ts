@@ -0,0 +1,107 @@
+import path from 'node:path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createHelperClient, HelperError, HelperExitError, type HelperClient } from './helperClient'
+
+const STUB = path.join(__dirname, 'fixtures', 'stubHelper.mjs')
+
+type Echo = { params: unknown; pid: number }
+
+const clients: HelperClient[] = []
+
+function stubClient(opts: { command?: string; cleanup?: () => Promise<void> } = {}): HelperClient {
+  const client = createHelperClient({
+    name: 'stub helper',
+    launch: async () => ({
+      command: opts.command ?? process.execPath,
+      args: [STUB],
+      cleanup: opts.cleanup
+    }),
+    timeoutMs: 2_000,
+    startupMs: 2_000
+  })
+  clients.push(client)
+  return client
+}
+
+afterEach(() => {
+  for (const client of clients.splice(0)) client.stop()
+})
+
+describe('createHelperClient', () => {
+  it('matches answers to requests by id, whatever order they come back in', async () => {
+    const client = stubClient()
+
+    const [slow, fast] = await Promise.all([
+      client.request<Echo>('echo', { n: 1, delayMs: 100 }),
+      client.request<Echo>('echo', { n: 2 })
+    ])
+
+    expect(slow.params).toEqual({ n: 1, delayMs: 100 })
+    expect(fast.params).toEqual({ n: 2 })
+    // Both went to the one process
+    expect(slow.pid).toBe(fast.pid)
+  })
+
+  it('rejects with the code and details the helper answered with', async () => {
+    const client = stubClient()
+
+    const error = await client.request('fail', {}).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(HelperError)
+    expect(error).toMatchObject({
+      code: 'sourceNotFound',
+      message: 'No such account.',
+      details: { available: ['Home'] }
+    })
+  })
+
+  it('skips stdout lines that are not answers to a pending request', async () => {
+    const client = stubClient()
+
+    expect(await client.request('noisy', {})).toBe('answer')
+    expect(await client.request<Echo>('echo', { n: 3 })).toMatchObject({ params: { n: 3 } })
+  })
+
+  it('times out a request, stops the helper and starts a new one for the next', async () => {
+    const client = stubClient()
+    const { pid } = await client.request<Echo>('echo', {})
+
+    await expect(client.request('hang', {}, 100)).rejects.toThrow(
+      'The stub helper did not answer within 0.1s.'
+    )
+
+    const next = await client.request<Echo>('echo', {})
+    expect(next.pid).not.toBe(pid)
+  })
+
+  it('reports a crash with the end of stderr and restarts on the next request', async () => {
+    const cleanup = vi.fn(async () => undefined)
+    const client = stubClient({ cleanup })
+    const { pid } = await client.request<Echo>('echo', {})
+    const waiting = client.request('echo', { delayMs: 10_000 })
+
+    const error = await client.request('crash', {}).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(HelperExitError)
+    expect(error).toMatchObject({
+      code: 3,
+      message: 'The stub helper stopped (exit code 3): fatal: lost the calendar store'
+    })
+    // Everything else sent to the crashed process fails the same way
+    await expect(waiting).rejects.toBe(error)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+
+    const next = await client.request<Echo>('echo', {})
+    expect(next.pid).not.toBe(pid)
+  })
+
+  it('reports a helper that cannot start', async () => {
+    const client = stubClient({ command: path.join(__dirname, 'fixtures', 'missing-helper') })
+
+    const error = await client.request('echo', {}).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(HelperExitError)
+    expect(error).toMatchObject({ code: 'ENOENT' })
+    expect((error as Error).message).toMatch(/^The stub helper could not start: /)
+  })
+})
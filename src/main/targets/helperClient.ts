@@ -0,0 +1,197 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process'
+import { createInterface } from 'node:readline'
+
+export type HelperLaunch = {
+  command: string
+  args: string[]
+  // Runs once the process has gone, e.g. to remove a script written for it
+  cleanup?: () => Promise<void>
+}
+
+export type HelperOptions = {
+  // Said in errors, e.g. "The calendar helper did not answer"
+  name: string
+  launch: () => Promise<HelperLaunch>
+  timeoutMs: number
+  // Extra time for requests sent before the helper has answered anything, to cover its start-up
+  startupMs: number
+}
+
+export type HelperClient = {
+  request<T>(command: string, params: unknown, timeoutMs?: number): Promise<T>
+  stop(): void
+}
+
+// A failure the helper answered a request with, e.g. {"code":"permission","message":"..."}
+export class HelperError extends Error {
+  readonly code: string
+  // Everything else the helper said about it
+  readonly details: Record<string, unknown>
+
+  constructor(code: string, message: string, details: Record<string, unknown>) {
+    super(message)
+    this.name = 'HelperError'
+    this.code = code
+    this.details = details
+  }
+}
+
+// The helper exited or could not start while requests were outstanding
+export class HelperExitError extends Error {
+  readonly code: number | string | null
+  // The end of what it wrote to stderr, where compile errors and crashes show up
+  readonly stderr: string
+
+  constructor(message: string, code: number | string | null, stderr: string) {
+    super(message)
+    this.name = 'HelperExitError'
+    this.code = code
+    this.stderr = stderr
+  }
+}
+
+type Pending = {
+  proc: ChildProcessWithoutNullStreams
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+type Response = {
+  id?: unknown
+  result?: unknown
+  error?: { code?: unknown; message?: unknown } & Record<string, unknown>
+}
+
+const STDERR_LIMIT = 8192
+
+/**
+ * Talks to a long-lived helper process over line-delimited JSON. Each request
+ * is one line on the helper's stdin, {"id":1,"command":"...","params":{...}},
+ * and each answer one line on its stdout, {"id":1,"result":...} or
+ * {"id":1,"error":{"code":"...","message":"..."}}. The helper is started on
+ * the first request and again on the next one after it exits or crashes; a
+ * request that times out stops it, since it may be stuck.
+ */
+export function createHelperClient(options: HelperOptions): HelperClient {
+  let child: ChildProcessWithoutNullStreams | null = null
+  let starting: Promise<ChildProcessWithoutNullStreams> | null = null
+  // Why the last process went away, for requests that find it already gone
+  let lastExit: HelperExitError | null = null
+  let answered = false
+  let nextId = 1
+  const pending = new Map<number, Pending>()
+
+  function settle(id: number): Pending | null {
+    const entry = pending.get(id)
+    if (!entry) return null
+    pending.delete(id)
+    clearTimeout(entry.timer)
+    return entry
+  }
+
+  // Only the requests sent to that process; a replacement may already have its own
+  function rejectAll(proc: ChildProcessWithoutNullStreams, error: Error): void {
+    for (const [id, entry] of [...pending]) {
+      if (entry.proc === proc) settle(id)?.reject(error)
+    }
+  }
+
+  function stopProcess(proc: ChildProcessWithoutNullStreams): void {
+    if (child === proc) child = null
+    proc.kill()
+  }
+
+  function onLine(line: string): void {
+    let response: Response
+    try {
+      response = JSON.parse(line) as Response
+    } catch {
+      // Anything else on stdout is diagnostics, not an answer
+      return
+    }
+    answered = true
+    const entry = typeof response.id === 'number' ? settle(response.id) : null
+    if (!entry) return
+
+    if (response.error) {
+      const { code, message, ...details } = response.error
+      entry.reject(
+        new HelperError(
+          typeof code === 'string' ? code : 'failed',
+          typeof message === 'string' ? message : `The ${options.name} reported a failure.`,
+          details
+        )
+      )
+    } else {
+      entry.resolve(response.result)
+    }
+  }
+
+  async function launch(): Promise<ChildProcessWithoutNullStreams> {
+    const { command, args, cleanup } = await options.launch()
+    const proc = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] })
+    child = proc
+    let stderr = ''
+    let spawnError: NodeJS.ErrnoException | null = null
+    answered = false
+
+    createInterface({ input: proc.stdout }).on('line', onLine)
+    proc.stderr.setEncoding('utf8')
+    proc.stderr.on('data', (chunk: string) => {
+      stderr = (stderr + chunk).slice(-STDERR_LIMIT)
+    })
+    // Writes after a crash fail here; the close below reports it
+    proc.stdin.on('error', () => undefined)
+    proc.once('error', (error: NodeJS.ErrnoException) => {
+      spawnError = error
+    })
+    proc.once('close', (code, signal) => {
+      if (child === proc) child = null
+      const lastLine = stderr.trim().split('\n').pop() ?? ''
+      lastExit = new HelperExitError(
+        spawnError
+          ? `The ${options.name} could not start: ${spawnError.message}`
+          : `The ${options.name} stopped (${signal ?? `exit code ${code}`})` +
+              (lastLine ? `: ${lastLine}` : '.'),
+        spawnError?.code ?? code,
+        stderr
+      )
+      rejectAll(proc, lastExit)
+      void cleanup?.().catch(() => undefined)
+    })
+    return proc
+  }
+
+  async function running(): Promise<ChildProcessWithoutNullStreams> {
+    if (child) return child
+    starting ??= launch().finally(() => {
+      starting = null
+    })
+    return await starting
+  }
+
+  return {
+    async request<T>(command: string, params: unknown, timeoutMs = options.timeoutMs) {
+      const proc = await running()
+      // It may have exited while starting up, before this request was registered
+      if (proc !== child) throw lastExit ?? new Error(`The ${options.name} was stopped.`)
+      const id = nextId++
+      const limitMs = timeoutMs + (answered ? 0 : options.startupMs)
+
+      return await new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          settle(id)
+          reject(new Error(`The ${options.name} did not answer within ${limitMs / 1000}s.`))
+          stopProcess(proc)
+        }, limitMs)
+        pending.set(id, { proc, resolve: resolve as (value: unknown) => void, reject, timer })
+        proc.stdin.write(`${JSON.stringify({ id, command, params })}\n`)
+      })
+    },
+
+    stop() {
+      if (child) stopProcess(child)
+    }
+  }
+}
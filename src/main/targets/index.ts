@@ -0,0 +1,69 @@
+import { caldavTarget } from './caldavTarget'
+import type { CalendarContainer, CalendarSource, CalendarTarget } from './calendarTarget'
+import { eventKitTarget, stopEventKitHelper } from './eventKitTarget'
+import { jxaTarget } from './jxaTarget'
+import { memoryTarget } from './memoryTarget'
+
+export type {
+  CalendarContainer,
+  CalendarLocation,
+  CalendarRef,
+  CalendarSource,
+  CalendarTarget,
+  CalendarTargetCapabilities,
+  EventChangeResult,
+  EventRange,
+  ExistingEvent,
+  TargetCalendar
+} from './calendarTarget'
+
+const targets: Record<CalendarContainer, CalendarTarget> = {
+  icloud: eventKitTarget,
+  local: jxaTarget,
+  caldav: caldavTarget,
+  memory: memoryTarget
+}
+
+export function calendarTarget(container: CalendarContainer): CalendarTarget {
+  const target = targets[container]
+  if (!target) {
+    throw new Error(`Unknown calendar destination "${container}".`)
+  }
+  return target
+}
+
+// The native targets need macOS; everywhere else imports go to CalDAV or land in memory
+export function availableTargets(): CalendarTarget[] {
+  return process.platform === 'darwin'
+    ? [eventKitTarget, jxaTarget, caldavTarget]
+    : [caldavTarget, memoryTarget]
+}
+
+export function describeTargets(): Pick<CalendarTarget, 'container' | 'label' | 'capabilities'>[] {
+  return availableTargets().map(({ container, label, capabilities }) => ({
+    container,
+    label,
+    capabilities
+  }))
+}
+
+/**
+ * The accounts each available target can write to and the calendars in them,
+ * for the destination picker. Asks every target, so it fails if one cannot be read.
+ */
+export async function listCalendarSources(): Promise<
+  { container: CalendarContainer; label: string; sources: CalendarSource[] }[]
+> {
+  return await Promise.all(
+    availableTargets().map(async (target) => ({
+      container: target.container,
+      label: target.label,
+      sources: await target.listSources()
+    }))
+  )
+}
+
+// Ends the long-lived native helpers; they start again on the next request
+export function stopNativeHelpers(): void {
+  stopEventKitHelper()
+}
@@ -0,0 +1,260 @@
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import type {
+  CalendarTarget,
+  EventChangeResult,
+  ExistingEvent,
+  TargetCalendar
+} from './calendarTarget'
+import {
+  eventsPayload,
+  execFileAsync,
+  listPayload,
+  nativeFailure,
+  NO_CHANGES,
+  withScratchDir,
+  writePayload,
+  type ExecResult,
+  type NativePayload
+} from './native'
+
+async function runJxa(payload: NativePayload): Promise<string> {
+  const jxa = `
+ObjC.import('Foundation');
+
+function readPayload(path) {
+  var text = $.NSString.stringWithContentsOfFileEncodingError(path, $.NSUTF8StringEncoding, null);
+  return JSON.parse(text.js);
+}
+
+var payload;
+var Calendar = Application("Calendar");
+
+function colorHex(c) {
+  try {
+    return '#' + c.color().slice(0, 3).map(function(v) {
+      var hex = Math.round(v / 257).toString(16);
+      return hex.length < 2 ? '0' + hex : hex;
+    }).join('').toUpperCase();
+  } catch (err) {
+    return null;
+  }
+}
+
+function listCalendars() {
+  return JSON.stringify(Calendar.calendars().map(function(c) {
+    return { name: c.name(), colorHex: colorHex(c) };
+  }));
+}
+
+function listEvents() {
+  var matches = Calendar.calendars.whose({ name: payload.calendarName });
+  if (matches.length === 0) return '[]';
+
+  var events = matches[0].events.whose({
+    _and: [
+      { startDate: { '<': new Date(payload.range.endMs) } },
+      { endDate: { '>': new Date(payload.range.startMs) } }
+    ]
+  });
+  // Reading each property across the whole set is one Apple event instead of one per event
+  var ids = events.uid();
+  var summaries = events.summary();
+  var starts = events.startDate();
+  var ends = events.endDate();
+  var allDay = events.alldayEvent();
+  return JSON.stringify(ids.map(function(id, i) {
+    return {
+      eventId: id,
+      summary: summaries[i] || '',
+      startMs: starts[i].getTime(),
+      endMs: ends[i].getTime(),
+      isAllDay: !!allDay[i]
+    };
+  }));
+}
+
+function writeEvents() {
+  var hasWrites = payload.ensureCalendar || payload.events.length > 0 || payload.updates.length > 0;
+
+  // Find or create calendar; delete-only runs never create a missing one
+  var matches = Calendar.calendars.whose({ name: payload.calendarName });
+  var cal = (matches.length > 0)
+    ? matches[0]
+    : hasWrites ? Calendar.Calendar({ name: payload.calendarName }).make() : null;
+  if (cal && hasWrites) {
+    try { cal.color = payload.calendarColorHex; } catch (err) {}
+  }
+
+  function eventDates(e) {
+    if (e.isAllDay && e.startYMD && e.endYMD) {
+      // Local dates (no timezone shift) for all-day banners
+      return {
+        start: new Date(e.startYMD[0], e.startYMD[1] - 1, e.startYMD[2]),
+        end:   new Date(e.endYMD[0],   e.endYMD[1] - 1,   e.endYMD[2])
+      };
+    }
+    if (e.timeKind === 'floating') {
+      // Floating times keep their wall-clock value in whatever zone the Mac is in
+      return {
+        start: new Date(e.startWall[0], e.startWall[1] - 1, e.startWall[2], e.startWall[3], e.startWall[4], e.startWall[5]),
+        end:   new Date(e.endWall[0],   e.endWall[1] - 1,   e.endWall[2],   e.endWall[3],   e.endWall[4],   e.endWall[5])
+      };
+    }
+    // Calendar's scripting dictionary has no time zone property, so zoned
+    // events are placed at their exact instant
+    return { start: new Date(e.startMs), end: new Date(e.endMs) };
+  }
+
+  function markAllDay(ev, e) {
+    if (e.isAllDay) {
+      // Try both property names (varies by macOS scripting dictionary)
+      try { ev.allDayEvent = true; } catch (err) {}
+      try { ev.alldayEvent = true; } catch (err) {}
+    }
+  }
+
+  function alarmProps(a, e) {
+    if (a.kind === 'absolute') return { triggerDate: new Date(a.atMs) };
+    // Calendar counts trigger intervals from the start only
+    var minutes = a.related === 'end'
+      ? a.minutes + Math.round((e.endMs - e.startMs) / 60000)
+      : a.minutes;
+    return { triggerInterval: minutes };
+  }
+
+  function setAlarms(ev, e) {
+    // Replace what an earlier import set, so updates do not stack duplicates
+    try {
+      var existing = ev.displayAlarms();
+      for (var i = existing.length - 1; i >= 0; i--) existing[i].delete();
+    } catch (err) {}
+    e.alarms.forEach(function(a) {
+      try { ev.displayAlarms.push(Calendar.DisplayAlarm(alarmProps(a, e))); } catch (err) {}
+    });
+  }
+
+  function createEvent(e) {
+    var dates = eventDates(e);
+    var ev = Calendar.Event({
+      summary: e.summary,
+      startDate: dates.start,
+      endDate: dates.end,
+      location: e.location,
+      description: e.description,
+      url: e.url || ''
+    });
+
+    cal.events.push(ev);
+    markAllDay(ev, e);
+    setAlarms(ev, e);
+    return ev.uid();
+  }
+
+  function findEvent(eventId) {
+    if (!cal) return null;
+    var found = cal.events.whose({ uid: eventId });
+    return found.length > 0 ? found[0] : null;
+  }
+
+  function updateEvent(u) {
+    var ev = findEvent(u.eventId);
+    // Recreate events the user removed by hand since the last import
+    if (!ev) return createEvent(u.event);
+
+    var dates = eventDates(u.event);
+    ev.summary = u.event.summary;
+    ev.startDate = dates.start;
+    ev.endDate = dates.end;
+    ev.location = u.event.location;
+    ev.description = u.event.description;
+    ev.url = u.event.url || '';
+    markAllDay(ev, u.event);
+    setAlarms(ev, u.event);
+    return u.eventId;
+  }
+
+  // An event Calendar refuses is reported with an empty id; the rest of the batch still goes in
+  function orEmpty(write) {
+    return function(item) {
+      try { return write(item); } catch (err) { return ''; }
+    };
+  }
+
+  function deleteEvent(eventId) {
+    var ev = findEvent(eventId);
+    if (ev) ev.delete();
+    return eventId;
+  }
+
+  var deletedIds = payload.deletions.map(orEmpty(deleteEvent));
+  var updatedIds = payload.updates.map(orEmpty(updateEvent));
+  var createdIds = payload.events.map(orEmpty(createEvent));
+
+  return JSON.stringify({
+    createdIds: createdIds,
+    updatedIds: updatedIds,
+    deletedIds: deletedIds
+  });
+}
+
+function run(argv) {
+  payload = readPayload(argv[0]);
+  return payload.action === 'list'
+    ? listCalendars()
+    : payload.action === 'events' ? listEvents() : writeEvents();
+}
+`
+
+  return await withScratchDir(async (dir) => {
+    const payloadPath = path.join(dir, 'payload.json')
+    await fs.writeFile(payloadPath, JSON.stringify(payload), 'utf8')
+    try {
+      const { stdout } = (await execFileAsync('/usr/bin/osascript', [
+        '-l',
+        'JavaScript',
+        '-e',
+        jxa,
+        payloadPath
+      ])) as ExecResult
+      return stdout.trim()
+    } catch (error) {
+      throw nativeFailure(error, '/usr/bin/osascript', 'local')
+    }
+  })
+}
+
+async function listLocalCalendars(): Promise<TargetCalendar[]> {
+  return JSON.parse(await runJxa(listPayload('local'))) as TargetCalendar[]
+}
+
+// Calendar.app through osascript; its scripting dictionary cannot set per-event time zones
+export const jxaTarget: CalendarTarget = {
+  container: 'local',
+  label: 'On My Mac',
+  capabilities: {
+    calendarColors: true,
+    eventTimeZones: false,
+    eventAvailability: false,
+    persistent: true
+  },
+
+  listCalendars: listLocalCalendars,
+
+  // Calendar.app's scripting has no accounts, so there is only the one
+  async listSources() {
+    return [{ id: null, title: 'On My Mac', calendars: await listLocalCalendars() }]
+  },
+
+  async ensureCalendar(calendar) {
+    await runJxa(writePayload('local', calendar, NO_CHANGES, true))
+  },
+
+  async listEvents(calendar, range) {
+    return JSON.parse(await runJxa(eventsPayload('local', calendar, range))) as ExistingEvent[]
+  },
+
+  async writeEvents(calendar, changes) {
+    return JSON.parse(await runJxa(writePayload('local', calendar, changes))) as EventChangeResult
+  }
+}
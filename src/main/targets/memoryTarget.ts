@@ -0,0 +1,107 @@
+import { randomUUID } from 'node:crypto'
+import type { ParsedIcsEvent } from '../importIcs'
+import type { CalendarRef, CalendarTarget, TargetCalendar } from './calendarTarget'
+
+type MemoryCalendar = {
+  colorHex: string
+  events: Map<string, ParsedIcsEvent>
+}
+
+export type MemoryCalendarTarget = CalendarTarget & {
+  eventsIn(calendarName: string): { eventId: string; event: ParsedIcsEvent }[]
+}
+
+/**
+ * Keeps calendars in process memory. Lets the preview, select and import flow
+ * run on machines without Calendar.app or EventKit, such as Linux and CI.
+ */
+export function createMemoryTarget(): MemoryCalendarTarget {
+  const calendars = new Map<string, MemoryCalendar>()
+
+  function ensure(calendar: CalendarRef): MemoryCalendar {
+    let existing = calendars.get(calendar.name)
+    if (!existing) {
+      existing = { colorHex: calendar.colorHex, events: new Map() }
+      calendars.set(calendar.name, existing)
+    }
+    existing.colorHex = calendar.colorHex
+    return existing
+  }
+
+  function listed(): TargetCalendar[] {
+    return Array.from(calendars, ([name, calendar]) => ({ name, colorHex: calendar.colorHex }))
+  }
+
+  function add(target: MemoryCalendar, event: ParsedIcsEvent): string {
+    const eventId = `memory-${randomUUID()}`
+    target.events.set(eventId, { ...event })
+    return eventId
+  }
+
+  return {
+    container: 'memory',
+    label: 'In memory (testing)',
+    capabilities: {
+      calendarColors: true,
+      eventTimeZones: true,
+      eventAvailability: true,
+      persistent: false
+    },
+
+    async listCalendars() {
+      return listed()
+    },
+
+    async listSources() {
+      return [{ id: null, title: 'In memory', calendars: listed() }]
+    },
+
+    async ensureCalendar(calendar) {
+      ensure(calendar)
+    },
+
+    async listEvents({ name }, range) {
+      const calendar = calendars.get(name)
+      if (!calendar) return []
+      return Array.from(calendar.events)
+        .filter(([, event]) => event.startMs < range.endMs && event.endMs > range.startMs)
+        .map(([eventId, event]) => ({
+          eventId,
+          summary: event.summary,
+          startMs: event.startMs,
+          endMs: event.endMs,
+          isAllDay: event.isAllDay
+        }))
+    },
+
+    async writeEvents(calendar, changes) {
+      const hasWrites = changes.create.length > 0 || changes.update.length > 0
+      const target = hasWrites ? ensure(calendar) : calendars.get(calendar.name)
+
+      // An event that is already gone counts as deleted
+      for (const eventId of changes.delete) target?.events.delete(eventId)
+      const deletedIds = [...changes.delete]
+
+      if (!target) return { createdIds: [], updatedIds: [], deletedIds }
+
+      const updatedIds = changes.update.map(({ eventId, event }) => {
+        // Recreate events removed since the last import, like the native targets do
+        if (!target.events.has(eventId)) return add(target, event)
+        target.events.set(eventId, { ...event })
+        return eventId
+      })
+      const createdIds = changes.create.map((event) => add(target, event))
+
+      return { createdIds, updatedIds, deletedIds }
+    },
+
+    eventsIn(calendarName) {
+      const calendar = calendars.get(calendarName)
+      return calendar
+        ? Array.from(calendar.events, ([eventId, event]) => ({ eventId, event: { ...event } }))
+        : []
+    }
+  }
+}
+
+export const memoryTarget = createMemoryTarget()
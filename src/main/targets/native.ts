@@ -0,0 +1,140 @@
+import { execFile } from 'node:child_process'
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { promisify } from 'node:util'
+import { AppError } from '../appErrors'
+import { HelperError } from './helperClient'
+import type {
+  CalendarContainer,
+  CalendarLocation,
+  CalendarRef,
+  EventChanges,
+  EventRange
+} from './calendarTarget'
+
+export const execFileAsync = promisify(execFile)
+
+export type ExecResult = {
+  stdout: string
+  stderr: string
+}
+
+// What the osascript script and the calendar helper read; the helper takes
+// its command separately and ignores action and ensureCalendar
+export type NativePayload = {
+  action: 'list' | 'write' | 'events'
+  calendarName: string
+  events: EventChanges['create']
+  updates: EventChanges['update']
+  deletions: string[]
+  ensureCalendar: boolean
+  container: CalendarContainer
+  // Account chosen in the popup; only the calendar helper can address one, and
+  // without it the helper picks the container's usual account
+  sourceId: string | null
+  calendarColorHex: string
+  // Only read by the 'events' action
+  range: EventRange | null
+}
+
+export function listPayload(container: CalendarContainer): NativePayload {
+  return {
+    action: 'list',
+    calendarName: '',
+    events: [],
+    updates: [],
+    deletions: [],
+    ensureCalendar: false,
+    container,
+    sourceId: null,
+    calendarColorHex: '',
+    range: null
+  }
+}
+
+export function eventsPayload(
+  container: CalendarContainer,
+  calendar: CalendarLocation,
+  range: EventRange
+): NativePayload {
+  return {
+    ...listPayload(container),
+    action: 'events',
+    calendarName: calendar.name,
+    sourceId: calendar.sourceId,
+    range
+  }
+}
+
+export function writePayload(
+  container: CalendarContainer,
+  calendar: CalendarRef,
+  changes: EventChanges,
+  ensureCalendar = false
+): NativePayload {
+  return {
+    action: 'write',
+    calendarName: calendar.name,
+    events: changes.create,
+    updates: changes.update,
+    deletions: changes.delete,
+    ensureCalendar,
+    container,
+    sourceId: calendar.sourceId,
+    calendarColorHex: calendar.colorHex,
+    range: null
+  }
+}
+
+// Scripts read their payload from a file here, since a large batch would not fit in an argument
+export async function withScratchDir<T>(run: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'CustomCal-'))
+  try {
+    return await run(dir)
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+}
+
+export const NO_CHANGES: EventChanges = { create: [], update: [], delete: [] }
+
+// What a failed script run or helper exit leaves behind; ENOENT in code means the tool is missing
+type ExecFailure = Error & { code?: string | number | null; stderr?: string }
+
+/**
+ * Turns a failed native call into an AppError when the cause is known: a
+ * failure the calendar helper answered with, or what a script or helper that
+ * could not run left on stderr.
+ */
+export function nativeFailure(error: unknown, tool: string, container: CalendarContainer): Error {
+  if (error instanceof HelperError) {
+    switch (error.code) {
+      case 'permission':
+        return new AppError({ code: 'permission', container }, error.message)
+      case 'sourceNotFound': {
+        const { available } = error.details
+        return new AppError(
+          {
+            code: 'sourceNotFound',
+            container,
+            available: Array.isArray(available) ? available.map(String) : []
+          },
+          error.message
+        )
+      }
+      default:
+        return error
+    }
+  }
+  if (!(error instanceof Error)) return new Error(String(error))
+
+  const { code, stderr = '' } = error as ExecFailure
+  if (code === 'ENOENT' || /xcrun: error|xcode-select/.test(stderr)) {
+    return new AppError({ code: 'toolchain', tool }, `${tool} is not available on this Mac.`)
+  }
+  if (/-1743|Not authori[sz]ed/i.test(stderr)) {
+    return new AppError({ code: 'permission', container }, 'CustomCal may not control Calendar.')
+  }
+  return error
+}
@@ -0,0 +1,321 @@
+export type WallTime = [number, number, number, number, number, number]
+
+const UTC_ZONE_PATTERN = /^(?:utc|gmt|z|etc\/utc|etc\/gmt|etc\/zulu|zulu)$/i
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  const cached = formatterCache.get(timeZone)
+  if (cached) return cached
+
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+  formatterCache.set(timeZone, formatter)
+  return formatter
+}
+
+export function isUtcTimeZone(timeZone: string): boolean {
+  return UTC_ZONE_PATTERN.test(timeZone.trim())
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function wallTimeInZone(date: Date, timeZone: string): WallTime {
+  const parts = zoneFormatter(timeZone).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0)
+
+  return [part('year'), part('month'), part('day'), part('hour'), part('minute'), part('second')]
+}
+
+function zoneOffsetMs(utcMs: number, timeZone: string): number {
+  const [y, mo, d, h, mi, s] = wallTimeInZone(new Date(utcMs), timeZone)
+  return Date.UTC(y, mo - 1, d, h, mi, s) - Math.floor(utcMs / 1000) * 1000
+}
+
+// Converts a wall-clock time in `timeZone` to an absolute Date. A null zone means
+// floating time, which is interpreted in the host's local zone.
+export function wallTimeToDate(wall: WallTime, timeZone: string | null): Date {
+  const [y, mo, d, h, mi, s] = wall
+
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return new Date(y, mo - 1, d, h, mi, s)
+  }
+
+  const asUtc = Date.UTC(y, mo - 1, d, h, mi, s)
+  if (isUtcTimeZone(timeZone)) return new Date(asUtc)
+
+  // Two passes settle the offset on either side of a DST transition
+  const firstGuess = asUtc - zoneOffsetMs(asUtc, timeZone)
+  return new Date(asUtc - zoneOffsetMs(firstGuess, timeZone))
+}
+
+export type IcsTimeKind = 'utc' | 'zoned' | 'floating'
+
+export type ResolvedIcsTime = {
+  date: Date
+  wall: WallTime
+  kind: IcsTimeKind
+  tzid: string | null
+  timeZone: string | null
+}
+
+type TimeZoneObservance = {
+  onset: WallTime
+  offsetFromMinutes: number
+  offsetToMinutes: number
+  rrule: string | null
+}
+
+export type VTimeZoneDefinition = {
+  tzid: string
+  observances: TimeZoneObservance[]
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+function localWallTime(date: Date): WallTime {
+  return [
+    date.getFullYear(),
+    date.getMonth() + 1,
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  ]
+}
+
+function utcWallTime(date: Date): WallTime {
+  return [
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  ]
+}
+
+function wallTimeValue([y, mo, d, h, mi, s]: WallTime): number {
+  return Date.UTC(y, mo - 1, d, h, mi, s)
+}
+
+function parseUtcOffset(value: unknown): number | null {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(String(value ?? '').trim())
+  if (!match) return null
+  const minutes = Number(match[2]) * 60 + Number(match[3])
+  return match[1] === '-' ? -minutes : minutes
+}
+
+function ruleParts(rrule: string): Record<string, string> {
+  const parts: Record<string, string> = {}
+  for (const part of rrule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=')
+    if (key && value) parts[key.toUpperCase()] = value.toUpperCase()
+  }
+  return parts
+}
+
+// Yearly transition rules in real-world VTIMEZONE blocks are "Nth weekday of
+// month" (BYDAY=2SU, BYDAY=-1SU) or a fixed BYMONTHDAY
+function observanceOnsetInYear(observance: TimeZoneObservance, year: number): WallTime | null {
+  if (!observance.rrule) return year === observance.onset[0] ? observance.onset : null
+  if (year < observance.onset[0]) return null
+
+  const rule = ruleParts(observance.rrule)
+  if (rule.FREQ !== 'YEARLY') return null
+  if (rule.UNTIL && year > Number(rule.UNTIL.slice(0, 4))) return null
+
+  const month = rule.BYMONTH ? Number(rule.BYMONTH) : observance.onset[1]
+  const [, , , h, mi, s] = observance.onset
+  let day = observance.onset[2]
+
+  const byDay = rule.BYDAY ? /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(rule.BYDAY) : null
+  if (byDay) {
+    const weekday = WEEKDAYS.indexOf(byDay[2])
+    const nth = byDay[1] ? Number(byDay[1]) : 1
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+    if (nth > 0) {
+      const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay()
+      day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7
+    } else {
+      const lastWeekday = new Date(Date.UTC(year, month - 1, daysInMonth)).getUTCDay()
+      day = daysInMonth - ((lastWeekday - weekday + 7) % 7) + (nth + 1) * 7
+    }
+  } else if (rule.BYMONTHDAY) {
+    day = Number(rule.BYMONTHDAY)
+  }
+
+  return [year, month, day, h, mi, s]
+}
+
+function offsetForWallTime(definition: VTimeZoneDefinition, wall: WallTime): number | null {
+  const target = wallTimeValue(wall)
+  let best: { onset: number; offset: number } | null = null
+
+  for (const observance of definition.observances) {
+    for (const year of [wall[0], wall[0] - 1]) {
+      const onset = observanceOnsetInYear(observance, year)
+      if (!onset) continue
+      const onsetValue = wallTimeValue(onset)
+      if (onsetValue <= target && (!best || onsetValue > best.onset)) {
+        best = { onset: onsetValue, offset: observance.offsetToMinutes }
+      }
+    }
+  }
+
+  if (best) return best.offset
+
+  // Before the first listed transition: use the earliest observance's starting offset
+  const earliest = [...definition.observances].sort(
+    (a, b) => wallTimeValue(a.onset) - wallTimeValue(b.onset)
+  )[0]
+  return earliest ? earliest.offsetFromMinutes : null
+}
+
+/**
+ * Collects the VTIMEZONE blocks of a parsed feed, keyed by TZID. They are only
+ * consulted for zones the host's Intl database does not know.
+ */
+export function collectVTimeZones(data: Record<string, unknown>): Map<string, VTimeZoneDefinition> {
+  const zones = new Map<string, VTimeZoneDefinition>()
+
+  for (const component of Object.values(data)) {
+    if (typeof component !== 'object' || component === null) continue
+    const vtimezone = component as Record<string, unknown>
+    if (vtimezone.type !== 'VTIMEZONE') continue
+
+    const tzid = Array.isArray(vtimezone.tzid) ? vtimezone.tzid.at(-1) : vtimezone.tzid
+    if (typeof tzid !== 'string') continue
+
+    const observances: TimeZoneObservance[] = []
+    for (const value of Object.values(vtimezone)) {
+      if (typeof value !== 'object' || value === null) continue
+      const observance = value as Record<string, unknown>
+      if (observance.type !== 'STANDARD' && observance.type !== 'DAYLIGHT') continue
+      if (!(observance.start instanceof Date)) continue
+
+      const offsetTo = parseUtcOffset(observance.tzoffsetto)
+      if (offsetTo === null) continue
+
+      observances.push({
+        onset: localWallTime(observance.start),
+        offsetFromMinutes: parseUtcOffset(observance.tzoffsetfrom) ?? offsetTo,
+        offsetToMinutes: offsetTo,
+        rrule: typeof observance.rrule === 'string' ? observance.rrule : null
+      })
+    }
+
+    if (observances.length > 0) zones.set(tzid, { tzid, observances })
+  }
+
+  return zones
+}
+
+/**
+ * Classifies a node-ical date as UTC, zoned or floating and returns its
+ * wall-clock time in the zone it was written in.
+ */
+export function resolveIcsTime(
+  value: Date & { tz?: string; dateOnly?: boolean },
+  zones: Map<string, VTimeZoneDefinition>
+): ResolvedIcsTime {
+  const tzid = value.tz ?? null
+
+  // DATE values and DATE-TIMEs without TZID or Z are floating; node-ical reads them as local time
+  if (value.dateOnly || !tzid) {
+    return { date: value, wall: localWallTime(value), kind: 'floating', tzid: null, timeZone: null }
+  }
+
+  if (isUtcTimeZone(tzid)) {
+    return { date: value, wall: utcWallTime(value), kind: 'utc', tzid, timeZone: 'UTC' }
+  }
+
+  if (isValidTimeZone(tzid)) {
+    return {
+      date: value,
+      wall: wallTimeInZone(value, tzid),
+      kind: 'zoned',
+      tzid,
+      timeZone: tzid
+    }
+  }
+
+  // node-ical falls back to host-local wall time for TZIDs it cannot map to IANA,
+  // so re-anchor that wall time using the feed's own VTIMEZONE definition
+  const wall = localWallTime(value)
+  const definition = zones.get(tzid)
+  const offsetMinutes = definition ? offsetForWallTime(definition, wall) : null
+  const date =
+    offsetMinutes === null ? value : new Date(wallTimeValue(wall) - offsetMinutes * 60 * 1000)
+
+  return { date, wall, kind: 'zoned', tzid, timeZone: null }
+}
+
+export function shiftWallTime(wall: WallTime, deltaMs: number): WallTime {
+  return utcWallTime(new Date(wallTimeValue(wall) + deltaMs))
+}
+
+export function wallTimeDifferenceMs(from: WallTime, to: WallTime): number {
+  return wallTimeValue(to) - wallTimeValue(from)
+}
+
+export type ZoneTransition = {
+  atMs: number
+  offsetFromMinutes: number
+  offsetToMinutes: number
+}
+
+export function zoneOffsetMinutes(utcMs: number, timeZone: string): number {
+  return Math.round(zoneOffsetMs(utcMs, timeZone) / 60000)
+}
+
+/**
+ * Finds every UTC offset change of an IANA zone between two instants, to the
+ * minute. Days are sampled first, then each change is narrowed by bisection.
+ */
+export function zoneTransitions(timeZone: string, fromMs: number, toMs: number): ZoneTransition[] {
+  const dayMs = 24 * 60 * 60 * 1000
+  const transitions: ZoneTransition[] = []
+  let previousMs = fromMs
+  let previousOffset = zoneOffsetMinutes(fromMs, timeZone)
+
+  for (let sampleMs = fromMs + dayMs; previousMs < toMs; sampleMs += dayMs) {
+    const nextMs = Math.min(sampleMs, toMs)
+    const offset = zoneOffsetMinutes(nextMs, timeZone)
+
+    if (offset !== previousOffset) {
+      let lowMinute = Math.floor(previousMs / 60000)
+      let highMinute = Math.ceil(nextMs / 60000)
+      while (highMinute - lowMinute > 1) {
+        const middle = Math.floor((lowMinute + highMinute) / 2)
+        if (zoneOffsetMinutes(middle * 60000, timeZone) === previousOffset) lowMinute = middle
+        else highMinute = middle
+      }
+      transitions.push({
+        atMs: highMinute * 60000,
+        offsetFromMinutes: previousOffset,
+        offsetToMinutes: offset
+      })
+      previousOffset = offset
+    }
+    previousMs = nextMs
+  }
+
+  return transitions
+}
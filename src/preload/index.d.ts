@@ -1,29 +1,7 @@
-export {}
-
-type ParsedIcsEvent = {
-  summary: string
-  description: string
-  location: string
-  isAllDay: boolean
-  startMs: number
-  endMs: number
-  startYMD: [number, number, number] | null
-  endYMD: [number, number, number] | null
-}
+import type { ElectronApi } from '../shared/ipc'
 
 declare global {
   interface Window {
-    electron: {
-      process: {
-        versions: NodeJS.ProcessVersions
-      }
-      previewCalendar(opts: { icsUrl: string }): Promise<{ events: ParsedIcsEvent[] }>
-      importCalendar(opts: {
-        targetCalendarName: string
-        container: 'local' | 'icloud'
-        events: ParsedIcsEvent[]
-        calendarColorHex: string
-      }): Promise<{ created: number }>
-    }
+    electron: ElectronApi
   }
 }
@@ -1,26 +1,47 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, webUtils } from 'electron'
+import {
+  IPC_CHANNELS,
+  IPC_EVENTS,
+  type ElectronApi,
+  type IpcApi,
+  type IpcEventApi,
+  type IpcResult
+} from '../shared/ipc'
 
-type ParsedIcsEvent = {
-  summary: string
-  description: string
-  location: string
-  isAllDay: boolean
-  startMs: number
-  endMs: number
-  startYMD: [number, number, number] | null
-  endYMD: [number, number, number] | null
-}
+// One method per contract channel; failures reject with the IpcErrorInfo the main process sent
+const bridge = Object.fromEntries(
+  Object.entries(IPC_CHANNELS).map(([method, { channel }]) => [
+    method,
+    async (request?: unknown) => {
+      const result = (await ipcRenderer.invoke(channel, request)) as IpcResult<unknown>
+      if (!result.ok) throw result.error
+      return result.value
+    }
+  ])
+) as IpcApi
+
+// Listeners get the payload alone; the IPC event object stays in the preload
+const events = Object.fromEntries(
+  Object.entries(IPC_EVENTS).map(([event, channel]) => [
+    `on${event[0].toUpperCase()}${event.slice(1)}`,
+    (listener: (payload: unknown) => void) => {
+      const forward = (_event: Electron.IpcRendererEvent, payload: unknown): void =>
+        listener(payload)
+      ipcRenderer.on(channel, forward)
+      return () => {
+        ipcRenderer.removeListener(channel, forward)
+      }
+    }
+  ])
+) as IpcEventApi
 
-contextBridge.exposeInMainWorld('electron', {
+const api: ElectronApi = {
+  ...bridge,
+  ...events,
   process: {
     versions: process.versions
   },
-  previewCalendar: (opts: { icsUrl: string }) =>
-    ipcRenderer.invoke('calendar:previewIcs', opts) as Promise<{ events: ParsedIcsEvent[] }>,
-  importCalendar: (opts: {
-    targetCalendarName: string
-    container: 'local' | 'icloud'
-    events: ParsedIcsEvent[]
-    calendarColorHex: string
-  }) => ipcRenderer.invoke('calendar:importIcs', opts) as Promise<{ created: number }>
-})
+  pathForFile: (file) => webUtils.getPathForFile(file)
+}
+
+contextBridge.exposeInMainWorld('electron', api)
@@ -1,41 +1,107 @@
-import { useEffect, useMemo, useState } from 'react'
-
-type ParsedIcsEvent = {
-  summary: string
-  description: string
-  location: string
-  isAllDay: boolean
-  startMs: number
-  endMs: number
-  startYMD: [number, number, number] | null
-  endYMD: [number, number, number] | null
-}
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { errorFix, errorMessage } from '../../shared/ipc'
+import FilterRulesEditor from './components/FilterRulesEditor'
+import ImportHistory from './components/ImportHistory'
+import AlertsEditor from './components/AlertsEditor'
+import CaldavAccountEditor from './components/CaldavAccountEditor'
+import FeedAccessEditor from './components/FeedAccessEditor'
+import RewriteRulesEditor, { type RewriteSample } from './components/RewriteRulesEditor'
+import SubscriptionList from './components/SubscriptionList'
+import TriStateCheckbox from './components/TriStateCheckbox'
+
+type CalendarTargetInfo = Awaited<ReturnType<Window['electron']['listCalendarTargets']>>[number]
+
+type CalendarContainer = CalendarTargetInfo['container']
+
+// A target with the accounts it can write to
+type CalendarDestination = Awaited<ReturnType<Window['electron']['listCalendarSources']>>[number]
+
+type Destination = { container: CalendarContainer; sourceId: string | null }
+
+type FilterRuleSet = Parameters<Window['electron']['evaluateFilters']>[0]['filters']
+
+type FilterDecision = Awaited<ReturnType<Window['electron']['evaluateFilters']>>[number]
+
+type GroupingStrategy = Parameters<Window['electron']['assignGroups']>[0]['grouping']
+
+type EventGroupAssignment = Awaited<ReturnType<Window['electron']['assignGroups']>>[number]
+
+type RewriteRule = Parameters<Window['electron']['prepareEvents']>[0]['rewrites'][number]
+
+type AlertSettings = Parameters<Window['electron']['prepareEvents']>[0]['alerts']
+
+type ParsedIcsEvent = Awaited<ReturnType<Window['electron']['previewCalendar']>>['events'][number]
+
+type IcsSource = Parameters<Window['electron']['previewCalendar']>[0]['sources'][number]
+
+type ImportProgress = Parameters<Parameters<Window['electron']['onImportProgress']>[0]>[0]
+
+type ImportResult = Awaited<ReturnType<Window['electron']['importCalendar']>>
+
+// A failure shown in the popup, with what the user can do about it
+type Problem = { message: string; fix: string | null }
 
 type EventGroup = {
   key: string
   label: string
   events: ParsedIcsEvent[]
+  // Positions in the preview list, which selection is keyed by
+  indexes: number[]
 }
 
 const oneDayMs = 24 * 60 * 60 * 1000
 
-function groupKeyForSummary(summary: string): string {
-  return summary.trim().toLocaleLowerCase()
+const maxRewriteSamples = 5
+
+const repeatRangeOptions = [
+  { days: 90, label: '3 months either side' },
+  { days: 182, label: '6 months either side' },
+  { days: 365, label: '1 year either side' },
+  { days: 730, label: '2 years either side' }
+]
+
+const groupingOptions: { kind: GroupingStrategy['kind']; label: string }[] = [
+  { kind: 'title', label: 'Title' },
+  { kind: 'normalizedTitle', label: 'Title without dates & numbers' },
+  { kind: 'series', label: 'Series (UID)' },
+  { kind: 'location', label: 'Location' },
+  { kind: 'category', label: 'Category' },
+  { kind: 'organizer', label: 'Organizer' }
+]
+
+const syncIntervalOptions = [
+  { minutes: 60, label: 'Hourly' },
+  { minutes: 360, label: 'Every 6 hours' },
+  { minutes: 1440, label: 'Daily' }
+]
+
+function recurrenceWindow(days: number): { startMs: number; endMs: number } {
+  const now = Date.now()
+  return { startMs: now - days * oneDayMs, endMs: now + days * oneDayMs }
 }
 
-function groupEventsBySummary(events: ParsedIcsEvent[]): EventGroup[] {
+function buildEventGroups(
+  events: ParsedIcsEvent[],
+  assignments: EventGroupAssignment[]
+): EventGroup[] {
   const groups = new Map<string, EventGroup>()
 
-  for (const event of events) {
-    const label = event.summary.trim() || '(no title)'
-    const key = groupKeyForSummary(label)
-    const existing = groups.get(key)
+  events.forEach((event, index) => {
+    const assignment = assignments[index]
+    if (!assignment) return
+    const existing = groups.get(assignment.key)
     if (existing) {
       existing.events.push(event)
-      continue
+      existing.indexes.push(index)
+      return
     }
-    groups.set(key, { key, label, events: [event] })
-  }
+    groups.set(assignment.key, {
+      key: assignment.key,
+      label: assignment.label,
+      events: [event],
+      indexes: [index]
+    })
+  })
 
   return Array.from(groups.values())
 }
@@ -65,6 +131,90 @@ function formatEventDate(event: ParsedIcsEvent): string {
   return `${start.toLocaleString()} - ${end.toLocaleString()}`
 }
 
+// Feed metadata worth a glance while reviewing; the URL is rendered as a link separately
+function eventDetails(event: ParsedIcsEvent): string[] {
+  const details: string[] = []
+  if (event.transparency === 'transparent') details.push('free')
+  if (event.categories.length > 0) details.push(event.categories.join(', '))
+  if (event.organizer) {
+    details.push(`by ${event.organizer.name ?? event.organizer.email ?? 'unknown organizer'}`)
+  }
+  if (event.attendees.length > 0) {
+    details.push(`${event.attendees.length} attendee${event.attendees.length === 1 ? '' : 's'}`)
+  }
+  if (event.sequence > 0) details.push(`revision ${event.sequence}`)
+  if (event.lastModifiedMs !== null) {
+    details.push(`updated ${new Date(event.lastModifiedMs).toLocaleDateString()}`)
+  }
+  return details
+}
+
+// Cancelled events, copies of an event from another feed and events already in
+// the destination calendar stay visible in review but are left out until picked by hand
+function defaultSelection(
+  events: ParsedIcsEvent[],
+  duplicates: (number | null)[],
+  existing: (string | null)[]
+): Set<number> {
+  return new Set(
+    events.flatMap((event, index) =>
+      event.status === 'cancelled' ||
+      (duplicates[index] ?? null) !== null ||
+      (existing[index] ?? null) !== null
+        ? []
+        : [index]
+    )
+  )
+}
+
+// Short name for a feed in the review list: host and path for links, file name for files
+function feedLabel(feed: string): string {
+  if (feed === 'text:pasted') return 'pasted text'
+  try {
+    const url = new URL(feed)
+    return url.protocol === 'file:'
+      ? fileName(decodeURIComponent(url.pathname))
+      : url.host + url.pathname
+  } catch {
+    return feed
+  }
+}
+
+function EventBadges(props: {
+  events: ParsedIcsEvent[]
+  duplicateCount: number
+  existingCount: number
+}): React.JSX.Element | null {
+  const { events, duplicateCount, existingCount } = props
+  const counts = [
+    {
+      kind: 'cancelled',
+      label: 'Cancelled',
+      count: events.filter((e) => e.status === 'cancelled').length
+    },
+    {
+      kind: 'tentative',
+      label: 'Tentative',
+      count: events.filter((e) => e.status === 'tentative').length
+    },
+    { kind: 'duplicate', label: 'Duplicate', count: duplicateCount },
+    { kind: 'existing', label: 'In calendar', count: existingCount }
+  ].filter((badge) => badge.count > 0)
+  if (counts.length === 0) return null
+
+  return (
+    <>
+      {counts.map((badge) => (
+        <span key={badge.kind} className={`event-badge event-badge-${badge.kind}`}>
+          {badge.count === events.length
+            ? badge.label
+            : `${badge.count} ${badge.label.toLowerCase()}`}
+        </span>
+      ))}
+    </>
+  )
+}
+
 function formatGroupDateRange(events: ParsedIcsEvent[]): string {
   if (events.length === 1) {
     return formatEventDate(events[0])
@@ -87,31 +237,150 @@ function formatGroupDateRange(events: ParsedIcsEvent[]): string {
   return `${events.length} occurrences from ${minDate} to ${maxDate}`
 }
 
-function errorMessage(error: unknown): string {
-  return error instanceof Error ? error.message : String(error)
+function destinationKey(container: CalendarContainer, sourceId: string | null): string {
+  return `${container}:${sourceId ?? ''}`
+}
+
+function fileName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath
 }
 
 export default function App(): React.JSX.Element {
-  const [icsUrl, setIcsUrl] = useState('')
+  const [sourceKind, setSourceKind] = useState<IcsSource['kind']>('url')
+  const [icsUrls, setIcsUrls] = useState<string[]>([''])
+  const [icsFilePath, setIcsFilePath] = useState('')
+  const [icsText, setIcsText] = useState('')
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
   const [name, setName] = useState('Imported Copy')
   const [calendarColor, setCalendarColor] = useState('#0A84FF')
-  const [container, setContainer] = useState<'local' | 'icloud'>('icloud')
+  const [destination, setDestination] = useState<Destination>({
+    container: 'icloud',
+    sourceId: null
+  })
+  const [destinations, setDestinations] = useState<CalendarDestination[]>([])
+  // Bumped to list the accounts again, e.g. after an import created a calendar
+  const [destinationsVersion, setDestinationsVersion] = useState(0)
+  const [isNewCalendar, setIsNewCalendar] = useState(true)
+  const [repeatRangeDays, setRepeatRangeDays] = useState(365)
   const [previewEvents, setPreviewEvents] = useState<ParsedIcsEvent[]>([])
-  const [selectedGroups, setSelectedGroups] = useState<Record<string, boolean>>({})
+  const [previewFeed, setPreviewFeed] = useState('')
+  const [previewFeeds, setPreviewFeeds] = useState<string[]>([])
+  const [duplicates, setDuplicates] = useState<(number | null)[]>([])
+  // Ids of matching events already in the destination calendar, checked after each preview
+  const [existingMatches, setExistingMatches] = useState<(string | null)[]>([])
+  const [existingMode, setExistingMode] = useState<'skip' | 'update' | 'replace'>('update')
+  const [cancelledMode, setCancelledMode] = useState<'remove' | 'mark'>('remove')
+  const [selectedEvents, setSelectedEvents] = useState<Set<number>>(new Set())
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set())
   const [isPreviewing, setIsPreviewing] = useState(false)
   const [isAdding, setIsAdding] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null)
+  // Set when an import stopped partway, so the modal can say what got in
+  const [importReport, setImportReport] = useState<ImportResult | null>(null)
   const [isEditorOpen, setIsEditorOpen] = useState(false)
+  const [view, setView] = useState<'import' | 'subscriptions' | 'history'>('import')
+  const [keepInSync, setKeepInSync] = useState(false)
+  const [syncIntervalMinutes, setSyncIntervalMinutes] = useState(360)
+  const [filters, setFilters] = useState<FilterRuleSet>({ fallback: 'include', rules: [] })
+  const [decisions, setDecisions] = useState<FilterDecision[]>([])
+  const [filterError, setFilterError] = useState<string | null>(null)
+  const filterTimer = useRef<number | null>(null)
+  const [grouping, setGrouping] = useState<GroupingStrategy>({ kind: 'title' })
+  const [groupAssignments, setGroupAssignments] = useState<EventGroupAssignment[]>([])
+  const [groupingError, setGroupingError] = useState<string | null>(null)
+  const [defaultStripPatterns, setDefaultStripPatterns] = useState<string[]>([])
+  const groupingTimer = useRef<number | null>(null)
+  const [rewrites, setRewrites] = useState<RewriteRule[]>([])
+  const [preparedEvents, setPreparedEvents] = useState<ParsedIcsEvent[]>([])
+  const [rewriteError, setRewriteError] = useState<string | null>(null)
+  const [alerts, setAlerts] = useState<AlertSettings>({
+    keepSourceAlarms: true,
+    defaults: { timedOffsetMinutes: null, allDayOffsetMinutes: null },
+    groups: {}
+  })
+  const prepareTimer = useRef<number | null>(null)
   const [, setLog] = useState('')
+  const [problem, setProblem] = useState<Problem | null>(null)
+
+  const problemNotice = problem ? (
+    <div className="status-line status-error problem-notice" role="alert">
+      {problem.message}
+      {problem.fix ? <p className="problem-fix">{problem.fix}</p> : null}
+    </div>
+  ) : null
 
-  const eventGroups = useMemo(() => groupEventsBySummary(previewEvents), [previewEvents])
+  const { container, sourceId } = destination
+  const existingCalendars =
+    destinations
+      .find((target) => target.container === container)
+      ?.sources.find((source) => source.id === sourceId)?.calendars ?? []
+
+  const eventGroups = useMemo(
+    () => buildEventGroups(previewEvents, groupAssignments),
+    [previewEvents, groupAssignments]
+  )
   const hasPreview = eventGroups.length > 0
-  const selectedGroupCount = eventGroups.filter(
-    (group) => selectedGroups[group.key] ?? false
+  const feedUrls = icsUrls.map((url) => url.trim()).filter((url) => url !== '')
+  // Subscriptions follow a single feed
+  const canSubscribe = sourceKind === 'url' && feedUrls.length === 1
+  const selectedGroupCount = eventGroups.filter((group) =>
+    group.indexes.some((index) => selectedEvents.has(index))
   ).length
-  const selectedEventCount = eventGroups.reduce((count, group) => {
-    if (selectedGroups[group.key] ?? false) return count + group.events.length
-    return count
-  }, 0)
+  const selectedEventCount = selectedIndexes().length
+  const rewriteSamples = useMemo(() => {
+    const samples: RewriteSample[] = []
+    for (const [index, before] of previewEvents.entries()) {
+      const after = preparedEvents[index]
+      if (!after || after === before) continue
+      if (
+        before.summary === after.summary &&
+        before.location === after.location &&
+        before.description === after.description
+      ) {
+        continue
+      }
+      samples.push({ before, after })
+      if (samples.length === maxRewriteSamples) break
+    }
+    return samples
+  }, [previewEvents, preparedEvents])
+
+  useEffect(() => {
+    function apply(available: CalendarDestination[]): void {
+      setDestinations(available)
+      setDestination((current) => {
+        const stillThere = available.some(
+          (target) =>
+            target.container === current.container &&
+            target.sources.some((source) => source.id === current.sourceId)
+        )
+        if (stillThere) return current
+        const first = available.find((target) => target.sources.length > 0)
+        return first
+          ? { container: first.container, sourceId: first.sources[0].id }
+          : { container: available[0]?.container ?? current.container, sourceId: null }
+      })
+    }
+
+    window.electron.listCalendarSources().then(apply, async (e: unknown) => {
+      // Without the account list, each target still offers the account it picks by default
+      setProblem({ message: errorMessage(e), fix: errorFix(e) })
+      const targets = await window.electron.listCalendarTargets()
+      apply(
+        targets.map((target) => ({
+          container: target.container,
+          label: target.label,
+          sources: [{ id: null, title: target.label, calendars: [] }]
+        }))
+      )
+    })
+  }, [destinationsVersion])
+
+  useEffect(() => {
+    void window.electron.defaultStripPatterns().then(setDefaultStripPatterns)
+    return window.electron.onImportProgress(setImportProgress)
+  }, [])
 
   useEffect(() => {
     if (!isEditorOpen) return undefined
@@ -126,59 +395,195 @@ export default function App(): React.JSX.Element {
     return () => window.removeEventListener('keydown', onKeyDown)
   }, [isEditorOpen, isAdding, isPreviewing])
 
+  function showProblem(e: unknown): void {
+    setProblem({ message: errorMessage(e), fix: errorFix(e) })
+    setLog('Error: ' + errorMessage(e))
+  }
+
   async function runPreview(): Promise<void> {
     if (!window.electron) {
       setLog('Preload not working!')
       return
     }
 
-    if (!icsUrl.trim()) {
-      setLog('Paste an iCal / webcal URL first.')
+    const sources = currentSources()
+    if (sources.length === 0) {
+      setLog(
+        sourceKind === 'url'
+          ? 'Paste an iCal / webcal URL first.'
+          : sourceKind === 'file'
+            ? 'Choose or drop an .ics file first.'
+            : 'Paste the calendar text first.'
+      )
       return
     }
 
     setIsPreviewing(true)
+    setProblem(null)
     setLog('Importing link and preparing preview...')
 
     try {
-      const res = await window.electron.previewCalendar({ icsUrl })
-      const groups = groupEventsBySummary(res.events)
-      const initialSelection: Record<string, boolean> = {}
-      for (const group of groups) {
-        initialSelection[group.key] = true
-      }
-
+      const res = await window.electron.previewCalendar({
+        sources,
+        window: recurrenceWindow(repeatRangeDays)
+      })
       setPreviewEvents(res.events)
-      setSelectedGroups(initialSelection)
+      setPreviewFeed(res.feed)
+      setPreviewFeeds(res.feeds)
+      setDuplicates(res.duplicates)
+      setExpandedGroups(new Set())
+      setFilters(res.filters)
+      setDecisions(res.decisions)
+      setFilterError(null)
+      setGrouping(res.grouping)
+      setGroupAssignments(res.groups)
+      setGroupingError(null)
+      setRewrites(res.rewrites)
+      setAlerts(res.alerts)
+      setPreparedEvents(res.prepared)
+      setRewriteError(null)
 
       if (res.events.length === 0) {
+        setExistingMatches([])
+        setSelectedEvents(new Set())
         setIsEditorOpen(false)
         setLog('No events found in this feed.')
         return
       }
 
+      // Compared as they would be written, so renamed titles match earlier copies
+      let existing: (string | null)[] = []
+      let existingError = ''
+      try {
+        existing = await window.electron.findExistingDuplicates({
+          targetCalendarName: name,
+          container,
+          sourceId,
+          events: res.prepared
+        })
+      } catch (e: unknown) {
+        existingError = ` Could not check "${name}" for duplicates: ${errorMessage(e)}`
+        setProblem({ message: existingError.trim(), fix: errorFix(e) })
+      }
+      setExistingMatches(existing)
+      setSelectedEvents(defaultSelection(res.events, res.duplicates, existing))
+
+      const duplicateCount = res.duplicates.filter((index) => index !== null).length
+      const existingCount = existing.filter((eventId) => eventId !== null).length
       setIsEditorOpen(true)
-      setLog(`Preview ready. ${res.events.length} events found.`)
+      setLog(
+        `Preview ready. ${res.events.length} events found.` +
+          (duplicateCount > 0
+            ? ` ${duplicateCount} duplicates across feeds left unselected.`
+            : '') +
+          (existingCount > 0 ? ` ${existingCount} already in "${name}" left unselected.` : '') +
+          existingError
+      )
     } catch (e: unknown) {
       setIsEditorOpen(false)
       setPreviewEvents([])
-      setSelectedGroups({})
-      setLog('Error: ' + errorMessage(e))
+      setSelectedEvents(new Set())
+      showProblem(e)
     } finally {
       setIsPreviewing(false)
     }
   }
 
+  function isIncluded(index: number): boolean {
+    return decisions[index]?.included ?? true
+  }
+
+  function selectedIndexes(): number[] {
+    return Array.from(previewEvents.keys()).filter(
+      (index) => selectedEvents.has(index) && isIncluded(index)
+    )
+  }
+
+  // What gets written: the selected events after the feed's rewrite rules
+  function selectedPreviewEvents(): ParsedIcsEvent[] {
+    return selectedIndexes().map((index) => preparedEvents[index] ?? previewEvents[index])
+  }
+
+  // Rules are evaluated in the main process and saved with the feed once they are valid
+  function changeFilters(next: FilterRuleSet): void {
+    setFilters(next)
+    if (filterTimer.current !== null) window.clearTimeout(filterTimer.current)
+    filterTimer.current = window.setTimeout(async () => {
+      try {
+        setDecisions(
+          await window.electron.evaluateFilters({ events: previewEvents, filters: next })
+        )
+        setFilterError(null)
+        await window.electron.saveFeedSettings({ feed: previewFeed, settings: { filters: next } })
+      } catch (e: unknown) {
+        setFilterError(errorMessage(e))
+      }
+    }, 250)
+  }
+
+  // Selection is kept per event, so it survives regrouping unchanged
+  function changeGrouping(next: GroupingStrategy): void {
+    setGrouping(next)
+    if (groupingTimer.current !== null) window.clearTimeout(groupingTimer.current)
+    groupingTimer.current = window.setTimeout(async () => {
+      try {
+        setGroupAssignments(
+          await window.electron.assignGroups({ events: previewEvents, grouping: next })
+        )
+        setGroupingError(null)
+        // Group-scoped rewrites and alerts follow the new group keys
+        if (rewrites.length > 0 || Object.keys(alerts.groups).length > 0) {
+          setPreparedEvents(
+            await window.electron.prepareEvents({
+              events: previewEvents,
+              rewrites,
+              alerts,
+              grouping: next
+            })
+          )
+        }
+        await window.electron.saveFeedSettings({ feed: previewFeed, settings: { grouping: next } })
+      } catch (e: unknown) {
+        setGroupingError(errorMessage(e))
+      }
+    }, 250)
+  }
+
+  // Rewrites and alerts both shape what gets written, so either one re-prepares the events
+  function changePreparation(next: { rewrites: RewriteRule[]; alerts: AlertSettings }): void {
+    setRewrites(next.rewrites)
+    setAlerts(next.alerts)
+    if (prepareTimer.current !== null) window.clearTimeout(prepareTimer.current)
+    prepareTimer.current = window.setTimeout(async () => {
+      try {
+        setPreparedEvents(
+          await window.electron.prepareEvents({
+            events: previewEvents,
+            ...next,
+            grouping
+          })
+        )
+        setRewriteError(null)
+        await window.electron.saveFeedSettings({ feed: previewFeed, settings: next })
+      } catch (e: unknown) {
+        setRewriteError(errorMessage(e))
+      }
+    }, 250)
+  }
+
+  function chooseGroupingKind(kind: GroupingStrategy['kind']): void {
+    changeGrouping(
+      kind === 'normalizedTitle' ? { kind, stripPatterns: defaultStripPatterns } : { kind }
+    )
+  }
+
   async function addSelectedEvents(): Promise<void> {
     if (!window.electron) {
       setLog('Preload not working!')
       return
     }
 
-    const events = previewEvents.filter((event) => {
-      const key = groupKeyForSummary(event.summary.trim() || '(no title)')
-      return selectedGroups[key] ?? false
-    })
+    const events = selectedPreviewEvents()
 
     if (events.length === 0) {
       setLog('Select at least one event before adding to iCalendar.')
@@ -186,60 +591,381 @@ export default function App(): React.JSX.Element {
     }
 
     setIsAdding(true)
+    setProblem(null)
+    setImportProgress(null)
+    setImportReport(null)
     setLog(`Adding ${events.length} events...`)
 
     try {
       const res = await window.electron.importCalendar({
         targetCalendarName: name,
         container,
+        sourceId,
         events,
-        calendarColorHex: calendarColor
+        calendarColorHex: calendarColor,
+        feed: previewFeed,
+        existing: existingMode,
+        cancelled: cancelledMode,
+        // Cancelled events left unselected still clear out copies imported earlier
+        cancelledEvents: preparedEvents.filter(
+          (event, index) => event.status === 'cancelled' && !selectedEvents.has(index)
+        ),
+        // Ticking an event marked "In calendar" is a deliberate request for a second copy
+        duplicates: selectedIndexes().some((index) => (existingMatches[index] ?? null) !== null)
+          ? 'import'
+          : 'skip'
       })
+      if (res.stopped) {
+        // Keep the review open so the report shows and the rest can be retried
+        setImportReport(res)
+        setLog(`Stopped after creating ${res.created} and updating ${res.updated} events.`)
+        return
+      }
+
       setIsEditorOpen(false)
-      setLog(`Done. Created ${res.created} events in "${name}".`)
+      setDestinationsVersion((version) => version + 1)
+      setLog(
+        `Done. Created ${res.created}, updated ${res.updated} and skipped ${res.skipped} events in "${name}".` +
+          (res.duplicates > 0 ? ` ${res.duplicates} of them were already in the calendar.` : '') +
+          (res.removed > 0 ? ` Removed ${res.removed} cancelled events.` : '') +
+          (res.failed > 0 ? ` ${res.failed} could not be written.` : '')
+      )
+
+      if (keepInSync && canSubscribe) {
+        await window.electron.createSubscription({
+          url: feedUrls[0],
+          calendarName: name,
+          container,
+          sourceId,
+          calendarColorHex: calendarColor,
+          grouping,
+          selectedGroups: Object.fromEntries(
+            eventGroups.map((group) => [
+              group.key,
+              group.indexes.some((index) => selectedEvents.has(index))
+            ])
+          ),
+          cancelled: cancelledMode,
+          intervalMinutes: syncIntervalMinutes,
+          // Subscriptions recognise events as published, before rewrites
+          importedEvents: selectedIndexes().map((index) => previewEvents[index])
+        })
+        setView('subscriptions')
+      }
     } catch (e: unknown) {
-      setLog('Error: ' + errorMessage(e))
+      showProblem(e)
     } finally {
       setIsAdding(false)
+      setIsCancelling(false)
+      setImportProgress(null)
     }
   }
 
-  function toggleGroup(key: string): void {
-    setSelectedGroups((prev) => ({
-      ...prev,
-      [key]: !(prev[key] ?? false)
-    }))
+  async function cancelImport(): Promise<void> {
+    setIsCancelling(true)
+    await window.electron.cancelImport()
+  }
+
+  async function exportSelectedEvents(): Promise<void> {
+    const events = selectedPreviewEvents()
+    if (events.length === 0) return
+
+    setIsAdding(true)
+    setProblem(null)
+    try {
+      const res = await window.electron.exportCalendar({ calendarName: name, events })
+      if (res) setLog(`Exported ${res.exported} events to ${res.filePath}.`)
+    } catch (e: unknown) {
+      showProblem(e)
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  function currentSources(): IcsSource[] {
+    if (sourceKind === 'url') return feedUrls.map((url) => ({ kind: 'url', url }))
+    if (sourceKind === 'file') return icsFilePath ? [{ kind: 'file', path: icsFilePath }] : []
+    return icsText.trim() ? [{ kind: 'text', text: icsText }] : []
+  }
+
+  function setFeedUrl(position: number, url: string): void {
+    setIcsUrls((prev) => prev.map((value, index) => (index === position ? url : value)))
+  }
+
+  async function chooseFile(): Promise<void> {
+    const filePath = await window.electron.chooseIcsFile()
+    if (filePath) setIcsFilePath(filePath)
+  }
+
+  async function onFileDrop(event: React.DragEvent<HTMLDivElement>): Promise<void> {
+    event.preventDefault()
+    setIsDraggingFile(false)
+
+    const file = event.dataTransfer.files[0]
+    if (!file || isPreviewing || isAdding) return
+
+    const filePath = window.electron.pathForFile(file)
+    if (filePath) {
+      setSourceKind('file')
+      setIcsFilePath(filePath)
+      return
+    }
+
+    // Drops without a backing file (e.g. from a mail client) arrive as contents only
+    setSourceKind('text')
+    setIcsText(await file.text())
+  }
+
+  function toggleGroup(group: EventGroup): void {
+    setSelectedEvents((prev) => {
+      const next = new Set(prev)
+      const selectAll = !group.indexes.every((index) => prev.has(index))
+      for (const index of group.indexes) {
+        if (selectAll) next.add(index)
+        else next.delete(index)
+      }
+      return next
+    })
+  }
+
+  function toggleOccurrence(index: number): void {
+    setSelectedEvents((prev) => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  function toggleExpanded(key: string): void {
+    setExpandedGroups((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
   }
 
   function selectAllGroups(value: boolean): void {
-    setSelectedGroups(Object.fromEntries(eventGroups.map((group) => [group.key, value])))
+    setSelectedEvents(
+      value ? defaultSelection(previewEvents, duplicates, existingMatches) : new Set()
+    )
   }
 
   return (
-    <div className="app-root">
-      <section className="import-screen card">
+    <div
+      className={isDraggingFile ? 'app-root is-dragging' : 'app-root'}
+      onDragOver={(event) => {
+        event.preventDefault()
+        setIsDraggingFile(true)
+      }}
+      onDragLeave={() => setIsDraggingFile(false)}
+      onDrop={onFileDrop}
+    >
+      <nav className="view-tabs">
+        <button
+          className={view === 'import' ? 'btn btn-ghost is-active' : 'btn btn-quiet'}
+          onClick={() => setView('import')}
+        >
+          Import
+        </button>
+        <button
+          className={view === 'subscriptions' ? 'btn btn-ghost is-active' : 'btn btn-quiet'}
+          onClick={() => setView('subscriptions')}
+        >
+          Subscriptions
+        </button>
+        <button
+          className={view === 'history' ? 'btn btn-ghost is-active' : 'btn btn-quiet'}
+          onClick={() => setView('history')}
+        >
+          History
+        </button>
+      </nav>
+
+      {view === 'subscriptions' ? <SubscriptionList /> : null}
+      {view === 'history' ? <ImportHistory /> : null}
+
+      <section className="import-screen card" hidden={view !== 'import'}>
         <label className="field">
-          <span>iCal URL</span>
-          <input
-            value={icsUrl}
-            onChange={(e) => setIcsUrl(e.target.value)}
-            placeholder="https://example.com/calendar.ics"
-          />
+          <span>Source</span>
+          <select
+            value={sourceKind}
+            onChange={(e) => setSourceKind(e.target.value as IcsSource['kind'])}
+          >
+            <option value="url">iCal URL</option>
+            <option value="file">.ics file</option>
+            <option value="text">Pasted text</option>
+          </select>
         </label>
 
+        {sourceKind === 'url' ? (
+          <>
+            <div className="field">
+              <span>{icsUrls.length > 1 ? 'iCal URLs, merged into one calendar' : 'iCal URL'}</span>
+              {icsUrls.map((url, index) => (
+                <div key={index} className="feed-url-row">
+                  <input
+                    value={url}
+                    onChange={(e) => setFeedUrl(index, e.target.value)}
+                    placeholder="https://example.com/calendar.ics"
+                    aria-label={`Feed ${index + 1}`}
+                  />
+                  {icsUrls.length > 1 ? (
+                    <button
+                      className="btn btn-quiet"
+                      aria-label="Remove feed"
+                      onClick={() => setIcsUrls((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      &times;
+                    </button>
+                  ) : null}
+                </div>
+              ))}
+              <button
+                className="btn btn-ghost feed-add"
+                onClick={() => setIcsUrls((prev) => [...prev, ''])}
+                disabled={isPreviewing || isAdding}
+              >
+                Add another feed
+              </button>
+            </div>
+            <FeedAccessEditor urls={feedUrls} disabled={isPreviewing || isAdding} />
+          </>
+        ) : sourceKind === 'file' ? (
+          <div className="field">
+            <span>Calendar file</span>
+            <div className="file-row">
+              <button
+                className="btn btn-ghost"
+                onClick={chooseFile}
+                disabled={isPreviewing || isAdding}
+              >
+                Choose...
+              </button>
+              <div className="file-name" title={icsFilePath}>
+                {icsFilePath ? fileName(icsFilePath) : 'or drop an .ics file here'}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <label className="field">
+            <span>Calendar text</span>
+            <textarea
+              value={icsText}
+              onChange={(e) => setIcsText(e.target.value)}
+              placeholder="BEGIN:VCALENDAR..."
+              rows={4}
+            />
+          </label>
+        )}
+
         <label className="field">
-          <span>New calendar name</span>
-          <input value={name} onChange={(e) => setName(e.target.value)} />
+          <span>Repeating events</span>
+          <select
+            value={repeatRangeDays}
+            onChange={(e) => setRepeatRangeDays(Number(e.target.value))}
+          >
+            {repeatRangeOptions.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </label>
 
         <label className="field">
           <span>Destination account</span>
           <select
-            value={container}
-            onChange={(e) => setContainer(e.target.value as 'local' | 'icloud')}
+            value={destinationKey(container, sourceId)}
+            onChange={(e) => {
+              for (const target of destinations) {
+                const source = target.sources.find(
+                  (candidate) => destinationKey(target.container, candidate.id) === e.target.value
+                )
+                if (!source) continue
+                setDestination({ container: target.container, sourceId: source.id })
+                setIsNewCalendar(true)
+              }
+            }}
+          >
+            {destinations
+              .filter((target) => target.sources.length > 0)
+              .map((target) =>
+                // Targets with one account are listed by their own name
+                target.sources.length === 1 && target.sources[0].id === null ? (
+                  <option key={target.container} value={destinationKey(target.container, null)}>
+                    {target.label}
+                  </option>
+                ) : (
+                  <optgroup key={target.container} label={target.label}>
+                    {target.sources.map((source) => (
+                      <option
+                        key={source.id ?? ''}
+                        value={destinationKey(target.container, source.id)}
+                      >
+                        {source.title}
+                      </option>
+                    ))}
+                  </optgroup>
+                )
+              )}
+          </select>
+        </label>
+
+        <label className="field">
+          <span>Calendar</span>
+          <select
+            value={isNewCalendar ? '' : name}
+            onChange={(e) => {
+              const calendar = existingCalendars.find((item) => item.name === e.target.value)
+              setIsNewCalendar(!calendar)
+              if (!calendar) return
+              setName(calendar.name)
+              if (calendar.colorHex) setCalendarColor(calendar.colorHex.toUpperCase())
+            }}
           >
-            <option value="icloud">iCloud</option>
-            <option value="local">On My Mac</option>
+            <option value="">New calendar...</option>
+            {existingCalendars.map((calendar) => (
+              <option key={calendar.name} value={calendar.name}>
+                {calendar.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {isNewCalendar && (
+          <label className="field">
+            <span>New calendar name</span>
+            <input value={name} onChange={(e) => setName(e.target.value)} />
+          </label>
+        )}
+
+        <CaldavAccountEditor
+          disabled={isPreviewing || isAdding}
+          onChange={() => setDestinationsVersion((version) => version + 1)}
+        />
+
+        <label className="field">
+          <span>Previously imported events</span>
+          <select
+            value={existingMode}
+            onChange={(e) => setExistingMode(e.target.value as 'skip' | 'update' | 'replace')}
+          >
+            <option value="update">Update if changed</option>
+            <option value="replace">Replace if changed</option>
+            <option value="skip">Leave as they are</option>
+          </select>
+        </label>
+
+        <label className="field">
+          <span>Cancelled in the feed</span>
+          <select
+            value={cancelledMode}
+            onChange={(e) => setCancelledMode(e.target.value as 'remove' | 'mark')}
+          >
+            <option value="remove">Remove from calendar</option>
+            <option value="mark">Keep, marked as cancelled</option>
           </select>
         </label>
 
@@ -264,6 +990,8 @@ export default function App(): React.JSX.Element {
         >
           {isPreviewing ? 'Importing...' : 'Import And Review'}
         </button>
+
+        {isEditorOpen ? null : problemNotice}
       </section>
 
       {isEditorOpen ? (
@@ -310,47 +1038,303 @@ export default function App(): React.JSX.Element {
               >
                 Clear all
               </button>
+              <label className="grouping-select">
+                Group by
+                <select
+                  value={grouping.kind}
+                  onChange={(e) => chooseGroupingKind(e.target.value as GroupingStrategy['kind'])}
+                  disabled={isAdding || isPreviewing}
+                >
+                  {groupingOptions.map((option) => (
+                    <option key={option.kind} value={option.kind}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
 
+            {grouping.kind === 'normalizedTitle' ? (
+              <div className="field grouping-patterns">
+                <label htmlFor="strip-patterns">Strip from titles (one pattern per line)</label>
+                <textarea
+                  id="strip-patterns"
+                  rows={4}
+                  spellCheck={false}
+                  value={grouping.stripPatterns.join('\n')}
+                  onChange={(e) =>
+                    changeGrouping({ ...grouping, stripPatterns: e.target.value.split('\n') })
+                  }
+                  disabled={isAdding || isPreviewing}
+                />
+              </div>
+            ) : null}
+            {groupingError ? <div className="status-line status-error">{groupingError}</div> : null}
+
+            <FilterRulesEditor
+              ruleSet={filters}
+              error={filterError}
+              disabled={isAdding || isPreviewing}
+              onChange={changeFilters}
+            />
+            <RewriteRulesEditor
+              rules={rewrites}
+              groups={eventGroups}
+              samples={rewriteSamples}
+              error={rewriteError}
+              disabled={isAdding || isPreviewing}
+              onChange={(next) => changePreparation({ rewrites: next, alerts })}
+            />
+            <AlertsEditor
+              alerts={alerts}
+              groups={eventGroups}
+              disabled={isAdding || isPreviewing}
+              onChange={(next) => changePreparation({ rewrites, alerts: next })}
+            />
+
             <div className="event-list">
               {hasPreview ? (
-                eventGroups.map((group) => (
-                  <label key={group.key} className="event-item" title={group.label}>
-                    <input
-                      type="checkbox"
-                      checked={selectedGroups[group.key] ?? false}
-                      onChange={() => toggleGroup(group.key)}
-                    />
-                    <div className="event-content">
-                      <div className="event-summary-row">
-                        <div className="event-summary">{group.label}</div>
-                        {group.events.length > 1 ? (
-                          <div className="event-repeat">(x{group.events.length})</div>
+                eventGroups.map((group) => {
+                  const excludedCount = group.indexes.filter((index) => !isIncluded(index)).length
+                  const selectedCount = group.indexes.filter((index) =>
+                    selectedEvents.has(index)
+                  ).length
+                  const isExpanded = expandedGroups.has(group.key)
+
+                  return (
+                    <div key={group.key} className="event-group">
+                      <div className="event-group-header">
+                        <label className="event-item" title={group.label}>
+                          <TriStateCheckbox
+                            checked={selectedCount === group.indexes.length}
+                            indeterminate={
+                              selectedCount > 0 && selectedCount < group.indexes.length
+                            }
+                            onChange={() => toggleGroup(group)}
+                          />
+                          <div className="event-content">
+                            <div className="event-summary-row">
+                              <div className="event-summary">{group.label}</div>
+                              {group.events.length > 1 ? (
+                                <div className="event-repeat">(x{group.events.length})</div>
+                              ) : null}
+                              <EventBadges
+                                events={group.events}
+                                duplicateCount={
+                                  group.indexes.filter((index) => duplicates[index] !== null).length
+                                }
+                                existingCount={
+                                  group.indexes.filter(
+                                    (index) => (existingMatches[index] ?? null) !== null
+                                  ).length
+                                }
+                              />
+                            </div>
+                            <div className="event-meta">
+                              {formatGroupDateRange(group.events)}
+                              {selectedCount > 0 && selectedCount < group.indexes.length
+                                ? ` · ${selectedCount} selected`
+                                : ''}
+                            </div>
+                            {excludedCount > 0 ? (
+                              <div className="event-meta event-excluded">
+                                {excludedCount === group.events.length
+                                  ? 'Excluded by rules'
+                                  : `${excludedCount} excluded by rules`}
+                              </div>
+                            ) : null}
+                          </div>
+                        </label>
+                        {group.events.length > 1 ||
+                        previewFeeds.length > 1 ||
+                        filters.rules.length > 0 ||
+                        group.events[0].url ||
+                        eventDetails(group.events[0]).length > 0 ? (
+                          <button
+                            className="btn btn-quiet event-expand"
+                            aria-expanded={isExpanded}
+                            onClick={() => toggleExpanded(group.key)}
+                          >
+                            {isExpanded ? 'Hide' : 'Show'}
+                          </button>
                         ) : null}
                       </div>
-                      <div className="event-meta">{formatGroupDateRange(group.events)}</div>
+                      {isExpanded ? (
+                        <ul className="event-occurrences">
+                          {group.events.map((event, position) => {
+                            const index = group.indexes[position]
+                            const duplicateOf = duplicates[index] ?? null
+                            return (
+                              <li key={index}>
+                                <label
+                                  className={
+                                    isIncluded(index)
+                                      ? 'event-occurrence'
+                                      : 'event-occurrence event-excluded'
+                                  }
+                                >
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedEvents.has(index)}
+                                    onChange={() => toggleOccurrence(index)}
+                                  />
+                                  <span>
+                                    {formatEventDate(event)}
+                                    <EventBadges
+                                      events={[event]}
+                                      duplicateCount={duplicateOf !== null ? 1 : 0}
+                                      existingCount={
+                                        (existingMatches[index] ?? null) !== null ? 1 : 0
+                                      }
+                                    />
+                                    {previewFeeds.length > 1 ? (
+                                      <span className="event-occurrence-details">
+                                        from {feedLabel(event.feed)}
+                                        {duplicateOf !== null
+                                          ? `, also in ${feedLabel(previewEvents[duplicateOf].feed)}`
+                                          : ''}
+                                      </span>
+                                    ) : null}
+                                    {eventDetails(event).length > 0 || event.url ? (
+                                      <span className="event-occurrence-details">
+                                        {eventDetails(event).join(' · ')}
+                                        {event.url ? (
+                                          <>
+                                            {eventDetails(event).length > 0 ? ' · ' : ''}
+                                            <a href={event.url} target="_blank" rel="noreferrer">
+                                              link
+                                            </a>
+                                          </>
+                                        ) : null}
+                                      </span>
+                                    ) : null}
+                                    {filters.rules.length > 0 ? (
+                                      <span className="event-occurrence-reason">
+                                        {decisions[index]?.reason}
+                                      </span>
+                                    ) : null}
+                                  </span>
+                                </label>
+                              </li>
+                            )
+                          })}
+                        </ul>
+                      ) : null}
                     </div>
-                  </label>
-                ))
+                  )
+                })
               ) : (
                 <div className="empty-state">No events to review.</div>
               )}
             </div>
 
+            {isAdding && importProgress ? (
+              <div className="import-progress">
+                <progress
+                  max={importProgress.total}
+                  value={importProgress.total - importProgress.remaining}
+                />
+                <span className="subtle">
+                  {importProgress.created + importProgress.updated} written ·{' '}
+                  {importProgress.failed} failed · {importProgress.remaining} remaining
+                </span>
+              </div>
+            ) : null}
+
+            {importReport?.stopped ? (
+              <div className="import-report">
+                <div className="status-line status-error">
+                  {importReport.stopped.message}
+                  {importReport.stopped.fix ? (
+                    <p className="problem-fix">{importReport.stopped.fix}</p>
+                  ) : null}
+                </div>
+                <p className="subtle">
+                  Created {importReport.created} and updated {importReport.updated} events before
+                  stopping
+                  {importReport.failed > 0
+                    ? `; ${importReport.failed} could not be written`
+                    : ''}. {importReport.remaining} changes were not made.
+                </p>
+                {importReport.written.length > 0 ? (
+                  <details>
+                    <summary>Events that were added</summary>
+                    <ul>
+                      {importReport.written.map((event, index) => (
+                        <li key={index}>
+                          {event.summary}{' '}
+                          <span className="subtle">
+                            {event.isAllDay
+                              ? new Date(event.startMs).toLocaleDateString()
+                              : new Date(event.startMs).toLocaleString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                ) : null}
+              </div>
+            ) : null}
+
+            {problemNotice}
+
             <footer className="editor-footer">
+              {canSubscribe ? (
+                <div className="sync-options">
+                  <label className="sync-toggle">
+                    <input
+                      type="checkbox"
+                      checked={keepInSync}
+                      onChange={(e) => setKeepInSync(e.target.checked)}
+                      disabled={isAdding}
+                    />
+                    Keep in sync
+                  </label>
+                  {keepInSync ? (
+                    <select
+                      value={syncIntervalMinutes}
+                      onChange={(e) => setSyncIntervalMinutes(Number(e.target.value))}
+                      disabled={isAdding}
+                    >
+                      {syncIntervalOptions.map((option) => (
+                        <option key={option.minutes} value={option.minutes}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+                </div>
+              ) : null}
+              {isAdding ? (
+                <button className="btn btn-quiet" onClick={cancelImport} disabled={isCancelling}>
+                  {isCancelling ? 'Cancelling...' : 'Cancel import'}
+                </button>
+              ) : (
+                <button
+                  className="btn btn-quiet"
+                  onClick={() => setIsEditorOpen(false)}
+                  disabled={isPreviewing}
+                >
+                  Cancel
+                </button>
+              )}
               <button
-                className="btn btn-quiet"
-                onClick={() => setIsEditorOpen(false)}
-                disabled={isAdding || isPreviewing}
+                className="btn btn-ghost"
+                onClick={exportSelectedEvents}
+                disabled={isAdding || isPreviewing || selectedEventCount === 0}
               >
-                Cancel
+                Export .ics
               </button>
               <button
                 className="btn btn-primary"
                 onClick={addSelectedEvents}
                 disabled={isAdding || isPreviewing || selectedEventCount === 0}
               >
-                {isAdding ? 'Adding...' : 'Add Selected to iCalendar'}
+                {isAdding
+                  ? importProgress
+                    ? `Adding ${importProgress.total - importProgress.remaining} of ${importProgress.total}...`
+                    : 'Adding...'
+                  : 'Add Selected to iCalendar'}
               </button>
             </footer>
           </section>
@@ -0,0 +1,172 @@
+type AlertSettings = Parameters<Window['electron']['prepareEvents']>[0]['alerts']
+type AlertDefaults = AlertSettings['defaults']
+
+const timedOptions: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'None' },
+  { minutes: 0, label: 'At start time' },
+  { minutes: -5, label: '5 minutes before' },
+  { minutes: -15, label: '15 minutes before' },
+  { minutes: -30, label: '30 minutes before' },
+  { minutes: -60, label: '1 hour before' },
+  { minutes: -120, label: '2 hours before' },
+  { minutes: -1440, label: '1 day before' }
+]
+
+// All-day alerts count from midnight at the start of the event
+const allDayOptions: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'None' },
+  { minutes: 540, label: '9:00 on the day' },
+  { minutes: -900, label: '9:00 the day before' },
+  { minutes: -2340, label: '9:00 two days before' },
+  { minutes: -9540, label: '9:00 one week before' }
+]
+
+function OffsetSelect(props: {
+  value: number | null
+  options: { minutes: number | null; label: string }[]
+  disabled: boolean
+  onChange: (minutes: number | null) => void
+}): React.JSX.Element {
+  const { value, options, disabled, onChange } = props
+  // Offsets read from another setup stay selectable even if they are not a preset
+  const isCustom = value !== null && !options.some((option) => option.minutes === value)
+
+  return (
+    <select
+      value={value === null ? '' : String(value)}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+    >
+      {options.map((option) => (
+        <option key={option.label} value={option.minutes === null ? '' : String(option.minutes)}>
+          {option.label}
+        </option>
+      ))}
+      {isCustom ? <option value={String(value)}>{value} minutes</option> : null}
+    </select>
+  )
+}
+
+function DefaultsFields(props: {
+  defaults: AlertDefaults
+  disabled: boolean
+  onChange: (defaults: AlertDefaults) => void
+}): React.JSX.Element {
+  const { defaults, disabled, onChange } = props
+  return (
+    <>
+      <label>
+        Timed
+        <OffsetSelect
+          value={defaults.timedOffsetMinutes}
+          options={timedOptions}
+          disabled={disabled}
+          onChange={(minutes) => onChange({ ...defaults, timedOffsetMinutes: minutes })}
+        />
+      </label>
+      <label>
+        All-day
+        <OffsetSelect
+          value={defaults.allDayOffsetMinutes}
+          options={allDayOptions}
+          disabled={disabled}
+          onChange={(minutes) => onChange({ ...defaults, allDayOffsetMinutes: minutes })}
+        />
+      </label>
+    </>
+  )
+}
+
+function AlertsEditor(props: {
+  alerts: AlertSettings
+  groups: { key: string; label: string }[]
+  disabled: boolean
+  onChange: (alerts: AlertSettings) => void
+}): React.JSX.Element {
+  const { alerts, groups, disabled, onChange } = props
+  const overrides = Object.entries(alerts.groups)
+  const labelByKey = new Map(groups.map((group) => [group.key, group.label]))
+  const freeGroup = groups.find((group) => !(group.key in alerts.groups))
+
+  function setOverride(key: string, defaults: AlertDefaults | null): void {
+    const next = { ...alerts.groups }
+    if (defaults) next[key] = defaults
+    else delete next[key]
+    onChange({ ...alerts, groups: next })
+  }
+
+  function moveOverride(from: string, to: string): void {
+    const next = Object.fromEntries(
+      Object.entries(alerts.groups).map(([key, value]) => [key === from ? to : key, value])
+    )
+    onChange({ ...alerts, groups: next })
+  }
+
+  return (
+    <details className="filter-rules">
+      <summary>Alerts</summary>
+      <div className="filter-rule-list">
+        <label className="filter-rule">
+          <input
+            type="checkbox"
+            checked={alerts.keepSourceAlarms}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...alerts, keepSourceAlarms: e.target.checked })}
+          />
+          Keep alerts from the feed
+        </label>
+        <div className="filter-rule">
+          <span className="alert-scope">Every event</span>
+          <DefaultsFields
+            defaults={alerts.defaults}
+            disabled={disabled}
+            onChange={(defaults) => onChange({ ...alerts, defaults })}
+          />
+        </div>
+        {overrides.map(([key, defaults]) => (
+          <div key={key} className="filter-rule">
+            <select
+              className="alert-scope"
+              value={key}
+              disabled={disabled}
+              onChange={(e) => moveOverride(key, e.target.value)}
+            >
+              {labelByKey.has(key) ? null : <option value={key}>{key} (not in this feed)</option>}
+              {groups
+                .filter((group) => group.key === key || !(group.key in alerts.groups))
+                .map((group) => (
+                  <option key={group.key} value={group.key}>
+                    {group.label}
+                  </option>
+                ))}
+            </select>
+            <DefaultsFields
+              defaults={defaults}
+              disabled={disabled}
+              onChange={(next) => setOverride(key, next)}
+            />
+            <button
+              className="btn btn-quiet"
+              disabled={disabled}
+              aria-label="Remove group alert"
+              onClick={() => setOverride(key, null)}
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+        <div className="filter-rule-footer">
+          <button
+            className="btn btn-ghost"
+            disabled={disabled || !freeGroup}
+            onClick={() => freeGroup && setOverride(freeGroup.key, alerts.defaults)}
+          >
+            Add group alert
+          </button>
+        </div>
+      </div>
+    </details>
+  )
+}
+
+export default AlertsEditor
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react'
+import { errorFix, errorMessage } from '../../../shared/ipc'
+
+type CaldavAccountSummary = NonNullable<Awaited<ReturnType<Window['electron']['getCaldavAccount']>>>
+type CaldavLogin = Parameters<Window['electron']['saveCaldavAccount']>[0]['login']
+
+function CaldavAccountEditor(props: {
+  disabled: boolean
+  // Called after the account is connected or forgotten, so destinations can be listed again
+  onChange: () => void
+}): React.JSX.Element {
+  const { disabled, onChange } = props
+  const [summary, setSummary] = useState<CaldavAccountSummary | null>(null)
+  const [serverUrl, setServerUrl] = useState('')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // The saved password stays in the main process; the form only ever holds a new one
+  useEffect(() => {
+    window.electron
+      .getCaldavAccount()
+      .then((saved) => {
+        setSummary(saved)
+        setServerUrl(saved?.serverUrl ?? '')
+        setUsername(saved?.username ?? '')
+      })
+      .catch(() => setSummary(null))
+  }, [])
+
+  async function save(login: CaldavLogin): Promise<void> {
+    setIsSaving(true)
+    try {
+      setSummary(await window.electron.saveCaldavAccount({ login }))
+      setPassword('')
+      setError(null)
+      onChange()
+    } catch (e: unknown) {
+      const fix = errorFix(e)
+      setError(fix ? `${errorMessage(e)} ${fix}` : errorMessage(e))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isBusy = disabled || isSaving
+
+  return (
+    <details className="filter-rules feed-access">
+      <summary>CalDAV account</summary>
+      <div className="filter-rule-list">
+        <div className="subtle">
+          {summary
+            ? `Connected as ${summary.username}. Calendars are in ${summary.calendarHomeUrl}`
+            : 'Import into Nextcloud, Fastmail, Radicale or any other CalDAV server.'}
+        </div>
+        <input
+          className="filter-rule-text"
+          placeholder="https://dav.example.com/"
+          spellCheck={false}
+          disabled={isBusy}
+          value={serverUrl}
+          onChange={(e) => setServerUrl(e.target.value)}
+        />
+        <div className="filter-rule">
+          <input
+            className="filter-rule-text"
+            placeholder="Username"
+            autoComplete="off"
+            disabled={isBusy}
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+          />
+          <input
+            className="filter-rule-text"
+            type="password"
+            placeholder={summary ? 'Password (unchanged)' : 'Password'}
+            autoComplete="off"
+            disabled={isBusy}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+        <div className="filter-rule-footer">
+          <button
+            className="btn btn-ghost"
+            disabled={isBusy || !serverUrl.trim() || !username.trim()}
+            onClick={() => void save({ serverUrl, username, password })}
+          >
+            {isSaving ? 'Connecting...' : 'Connect'}
+          </button>
+          <button
+            className="btn btn-quiet"
+            disabled={isBusy || !summary}
+            onClick={() => void save(null)}
+          >
+            Forget
+          </button>
+        </div>
+        {error ? <div className="status-line status-error">{error}</div> : null}
+      </div>
+    </details>
+  )
+}
+
+export default CaldavAccountEditor
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react'
+import { errorMessage } from '../../../shared/ipc'
+
+type FeedCredentials = Parameters<Window['electron']['saveFeedCredentials']>[0]['credentials']
+type FeedCredentialSummary = NonNullable<
+  Awaited<ReturnType<Window['electron']['getFeedCredentials']>>
+>
+type AuthKind = FeedCredentials['auth']['kind']
+
+function describeSummary(summary: FeedCredentialSummary | null): string {
+  if (!summary) return 'No saved credentials'
+  const parts: string[] = []
+  if (summary.authKind === 'basic') parts.push(`password for ${summary.username}`)
+  if (summary.authKind === 'bearer') parts.push('bearer token')
+  if (summary.headerNames.length > 0) parts.push(summary.headerNames.join(', '))
+  return `Saved: ${parts.join(' and ')}`
+}
+
+// One "Name: value" header per line
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    const separator = line.indexOf(':')
+    if (separator <= 0) throw new Error(`"${line.trim()}" is not a "Name: value" header.`)
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim()
+  }
+  return headers
+}
+
+function FeedAccessEditor(props: { urls: string[]; disabled: boolean }): React.JSX.Element {
+  const { urls, disabled } = props
+  const [position, setPosition] = useState(0)
+  // Credentials are kept per feed; with several feeds a picker chooses which one
+  const url = urls[Math.min(position, urls.length - 1)] ?? ''
+  const [summary, setSummary] = useState<FeedCredentialSummary | null>(null)
+  const [authKind, setAuthKind] = useState<AuthKind>('none')
+  const [username, setUsername] = useState('')
+  const [secret, setSecret] = useState('')
+  const [headerText, setHeaderText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Saved secrets stay in the main process; the form only ever holds new values
+  useEffect(() => {
+    if (!url) {
+      setSummary(null)
+      return
+    }
+    const timer = window.setTimeout(() => {
+      window.electron
+        .getFeedCredentials({ url })
+        .then(setSummary)
+        .catch(() => setSummary(null))
+    }, 400)
+    return () => window.clearTimeout(timer)
+  }, [url])
+
+  async function save(credentials: FeedCredentials): Promise<void> {
+    setIsSaving(true)
+    try {
+      const next = await window.electron.saveFeedCredentials({ url, credentials })
+      setSummary(next)
+      setSecret('')
+      setError(null)
+    } catch (e: unknown) {
+      setError(errorMessage(e))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  function saveForm(): void {
+    let headers: Record<string, string>
+    try {
+      headers = parseHeaders(headerText)
+    } catch (e: unknown) {
+      setError(errorMessage(e))
+      return
+    }
+
+    const auth: FeedCredentials['auth'] =
+      authKind === 'basic'
+        ? { kind: 'basic', username: username.trim(), password: secret }
+        : authKind === 'bearer'
+          ? { kind: 'bearer', token: secret.trim() }
+          : { kind: 'none' }
+    void save({ auth, headers })
+  }
+
+  const isBusy = disabled || isSaving || !url
+
+  return (
+    <details className="filter-rules feed-access">
+      <summary>Feed access</summary>
+      <div className="filter-rule-list">
+        {urls.length > 1 ? (
+          <div className="filter-rule">
+            <select
+              className="filter-rule-text"
+              value={Math.min(position, urls.length - 1)}
+              disabled={disabled || isSaving}
+              onChange={(e) => setPosition(Number(e.target.value))}
+            >
+              {urls.map((feedUrl, index) => (
+                <option key={index} value={index}>
+                  {feedUrl}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+        <div className="subtle">{describeSummary(summary)}</div>
+        <div className="filter-rule">
+          <select
+            value={authKind}
+            disabled={isBusy}
+            onChange={(e) => setAuthKind(e.target.value as AuthKind)}
+          >
+            <option value="none">No login</option>
+            <option value="basic">Username and password</option>
+            <option value="bearer">Bearer token</option>
+          </select>
+          {authKind === 'basic' ? (
+            <input
+              className="filter-rule-text"
+              placeholder="Username"
+              autoComplete="off"
+              disabled={isBusy}
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          ) : null}
+          {authKind !== 'none' ? (
+            <input
+              className="filter-rule-text"
+              type="password"
+              placeholder={authKind === 'basic' ? 'Password' : 'Token'}
+              autoComplete="off"
+              disabled={isBusy}
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+            />
+          ) : null}
+        </div>
+        <textarea
+          rows={2}
+          spellCheck={false}
+          placeholder="X-Api-Key: ... (one header per line)"
+          disabled={isBusy}
+          value={headerText}
+          onChange={(e) => setHeaderText(e.target.value)}
+        />
+        <div className="filter-rule-footer">
+          <button className="btn btn-ghost" disabled={isBusy} onClick={saveForm}>
+            Save to keychain
+          </button>
+          <button
+            className="btn btn-quiet"
+            disabled={isBusy || !summary}
+            onClick={() => void save({ auth: { kind: 'none' }, headers: {} })}
+          >
+            Forget
+          </button>
+        </div>
+        {error ? <div className="status-line status-error">{error}</div> : null}
+      </div>
+    </details>
+  )
+}
+
+export default FeedAccessEditor
@@ -0,0 +1,327 @@
+type FilterRuleSet = Parameters<Window['electron']['evaluateFilters']>[0]['filters']
+type FilterRule = FilterRuleSet['rules'][number]
+type FilterCondition = FilterRule['condition']
+type TextField = Extract<FilterCondition, { kind: 'keyword' }>['field']
+type EventStatus = Extract<FilterCondition, { kind: 'status' }>['statuses'][number]
+
+const conditionKinds: { kind: FilterCondition['kind']; label: string }[] = [
+  { kind: 'keyword', label: 'Keyword' },
+  { kind: 'regex', label: 'Regex' },
+  { kind: 'dateRange', label: 'Date range' },
+  { kind: 'weekdays', label: 'Weekdays' },
+  { kind: 'timeOfDay', label: 'Start time' },
+  { kind: 'duration', label: 'Duration' },
+  { kind: 'allDay', label: 'All-day / timed' },
+  { kind: 'status', label: 'Status' },
+  { kind: 'availability', label: 'Free / busy' }
+]
+
+const textFields: { field: TextField; label: string }[] = [
+  { field: 'summary', label: 'Title' },
+  { field: 'location', label: 'Location' },
+  { field: 'description', label: 'Description' },
+  { field: 'categories', label: 'Categories' },
+  { field: 'organizer', label: 'Organizer' },
+  { field: 'attendees', label: 'Attendees' },
+  { field: 'url', label: 'URL' }
+]
+
+const statuses: { status: EventStatus; label: string }[] = [
+  { status: 'confirmed', label: 'Confirmed' },
+  { status: 'tentative', label: 'Tentative' },
+  { status: 'cancelled', label: 'Cancelled' }
+]
+
+const weekdayLabels = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+
+function defaultCondition(kind: FilterCondition['kind']): FilterCondition {
+  switch (kind) {
+    case 'keyword':
+      return { kind, field: 'summary', value: '' }
+    case 'regex':
+      return { kind, field: 'summary', pattern: '' }
+    case 'dateRange':
+      return { kind, from: null, to: null }
+    case 'weekdays':
+      return { kind, days: [0, 6] }
+    case 'timeOfDay':
+      return { kind, from: '09:00', to: '17:00' }
+    case 'duration':
+      return { kind, minMinutes: null, maxMinutes: null }
+    case 'allDay':
+      return { kind, allDay: true }
+    case 'status':
+      return { kind, statuses: ['tentative'] }
+    case 'availability':
+      return { kind, transparent: true }
+  }
+}
+
+function optionalNumber(value: string): number | null {
+  return value.trim() === '' || Number.isNaN(Number(value)) ? null : Number(value)
+}
+
+function ConditionFields(props: {
+  condition: FilterCondition
+  disabled: boolean
+  onChange: (condition: FilterCondition) => void
+}): React.JSX.Element {
+  const { condition, disabled, onChange } = props
+
+  switch (condition.kind) {
+    case 'keyword':
+    case 'regex':
+      return (
+        <>
+          <select
+            value={condition.field}
+            disabled={disabled}
+            onChange={(e) =>
+              onChange({ ...condition, field: e.target.value as typeof condition.field })
+            }
+          >
+            {textFields.map((option) => (
+              <option key={option.field} value={option.field}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <input
+            className="filter-rule-text"
+            placeholder={condition.kind === 'regex' ? 'Pattern' : 'Contains'}
+            disabled={disabled}
+            value={condition.kind === 'regex' ? condition.pattern : condition.value}
+            onChange={(e) =>
+              onChange(
+                condition.kind === 'regex'
+                  ? { ...condition, pattern: e.target.value }
+                  : { ...condition, value: e.target.value }
+              )
+            }
+          />
+        </>
+      )
+    case 'dateRange':
+      return (
+        <>
+          <input
+            type="date"
+            disabled={disabled}
+            value={condition.from ?? ''}
+            onChange={(e) => onChange({ ...condition, from: e.target.value || null })}
+          />
+          <input
+            type="date"
+            disabled={disabled}
+            value={condition.to ?? ''}
+            onChange={(e) => onChange({ ...condition, to: e.target.value || null })}
+          />
+        </>
+      )
+    case 'weekdays':
+      return (
+        <span className="filter-weekdays">
+          {weekdayLabels.map((label, day) => (
+            <label key={day} className="filter-weekday">
+              <input
+                type="checkbox"
+                disabled={disabled}
+                checked={condition.days.includes(day)}
+                onChange={(e) =>
+                  onChange({
+                    ...condition,
+                    days: e.target.checked
+                      ? [...condition.days, day].sort((a, b) => a - b)
+                      : condition.days.filter((item) => item !== day)
+                  })
+                }
+              />
+              {label}
+            </label>
+          ))}
+        </span>
+      )
+    case 'timeOfDay':
+      return (
+        <>
+          <input
+            type="time"
+            disabled={disabled}
+            value={condition.from}
+            onChange={(e) => onChange({ ...condition, from: e.target.value })}
+          />
+          <input
+            type="time"
+            disabled={disabled}
+            value={condition.to}
+            onChange={(e) => onChange({ ...condition, to: e.target.value })}
+          />
+        </>
+      )
+    case 'duration':
+      return (
+        <>
+          <input
+            type="number"
+            min={0}
+            placeholder="Min minutes"
+            disabled={disabled}
+            value={condition.minMinutes ?? ''}
+            onChange={(e) => onChange({ ...condition, minMinutes: optionalNumber(e.target.value) })}
+          />
+          <input
+            type="number"
+            min={0}
+            placeholder="Max minutes"
+            disabled={disabled}
+            value={condition.maxMinutes ?? ''}
+            onChange={(e) => onChange({ ...condition, maxMinutes: optionalNumber(e.target.value) })}
+          />
+        </>
+      )
+    case 'allDay':
+      return (
+        <select
+          value={condition.allDay ? 'allDay' : 'timed'}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...condition, allDay: e.target.value === 'allDay' })}
+        >
+          <option value="allDay">All-day</option>
+          <option value="timed">Timed</option>
+        </select>
+      )
+    case 'status':
+      return (
+        <span className="filter-weekdays">
+          {statuses.map((option) => (
+            <label key={option.status} className="filter-weekday">
+              <input
+                type="checkbox"
+                disabled={disabled}
+                checked={condition.statuses.includes(option.status)}
+                onChange={(e) =>
+                  onChange({
+                    ...condition,
+                    statuses: e.target.checked
+                      ? [...condition.statuses, option.status]
+                      : condition.statuses.filter((item) => item !== option.status)
+                  })
+                }
+              />
+              {option.label}
+            </label>
+          ))}
+        </span>
+      )
+    case 'availability':
+      return (
+        <select
+          value={condition.transparent ? 'free' : 'busy'}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...condition, transparent: e.target.value === 'free' })}
+        >
+          <option value="free">Free</option>
+          <option value="busy">Busy</option>
+        </select>
+      )
+  }
+}
+
+function FilterRulesEditor(props: {
+  ruleSet: FilterRuleSet
+  error: string | null
+  disabled: boolean
+  onChange: (ruleSet: FilterRuleSet) => void
+}): React.JSX.Element {
+  const { ruleSet, error, disabled, onChange } = props
+
+  function updateRule(id: string, patch: Partial<FilterRule>): void {
+    onChange({
+      ...ruleSet,
+      rules: ruleSet.rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule))
+    })
+  }
+
+  function addRule(): void {
+    onChange({
+      ...ruleSet,
+      rules: [
+        ...ruleSet.rules,
+        { id: crypto.randomUUID(), action: 'exclude', condition: defaultCondition('keyword') }
+      ]
+    })
+  }
+
+  return (
+    <details className="filter-rules">
+      <summary>Filter rules ({ruleSet.rules.length})</summary>
+      <div className="filter-rule-list">
+        {ruleSet.rules.map((rule) => (
+          <div key={rule.id} className="filter-rule">
+            <select
+              value={rule.action}
+              disabled={disabled}
+              onChange={(e) =>
+                updateRule(rule.id, { action: e.target.value as FilterRule['action'] })
+              }
+            >
+              <option value="include">Include</option>
+              <option value="exclude">Exclude</option>
+            </select>
+            <select
+              value={rule.condition.kind}
+              disabled={disabled}
+              onChange={(e) =>
+                updateRule(rule.id, {
+                  condition: defaultCondition(e.target.value as FilterCondition['kind'])
+                })
+              }
+            >
+              {conditionKinds.map((option) => (
+                <option key={option.kind} value={option.kind}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <ConditionFields
+              condition={rule.condition}
+              disabled={disabled}
+              onChange={(condition) => updateRule(rule.id, { condition })}
+            />
+            <button
+              className="btn btn-quiet"
+              disabled={disabled}
+              aria-label="Remove rule"
+              onClick={() =>
+                onChange({ ...ruleSet, rules: ruleSet.rules.filter((item) => item.id !== rule.id) })
+              }
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+        <div className="filter-rule-footer">
+          <button className="btn btn-ghost" disabled={disabled} onClick={addRule}>
+            Add rule
+          </button>
+          <label>
+            Otherwise
+            <select
+              value={ruleSet.fallback}
+              disabled={disabled}
+              onChange={(e) =>
+                onChange({ ...ruleSet, fallback: e.target.value as FilterRuleSet['fallback'] })
+              }
+            >
+              <option value="include">include</option>
+              <option value="exclude">exclude</option>
+            </select>
+          </label>
+        </div>
+        {error ? <div className="status-line status-error">{error}</div> : null}
+      </div>
+    </details>
+  )
+}
+
+export default FilterRulesEditor
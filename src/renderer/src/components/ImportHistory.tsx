@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useState } from 'react'
+import { errorMessage } from '../../../shared/ipc'
+
+type ImportRun = Awaited<ReturnType<Window['electron']['listImportRuns']>>[number]
+
+type RunGroup = {
+  key: string
+  label: string
+  count: number
+}
+
+function activeGroups(run: ImportRun): RunGroup[] {
+  const groups = new Map<string, RunGroup>()
+  for (const event of run.events) {
+    if (event.removedAt !== null) continue
+    const group = groups.get(event.groupKey)
+    if (group) {
+      group.count++
+    } else {
+      groups.set(event.groupKey, {
+        key: event.groupKey,
+        label: event.summary.trim() || '(no title)',
+        count: 1
+      })
+    }
+  }
+  return Array.from(groups.values()).sort((a, b) => a.label.localeCompare(b.label))
+}
+
+function formatRunStatus(run: ImportRun, remaining: number): string {
+  if (run.revertedAt !== null) return `Reverted ${new Date(run.revertedAt).toLocaleString()}`
+  if (remaining < run.events.length) {
+    return `${remaining} of ${run.events.length} created events still in the calendar`
+  }
+  return `Created ${run.events.length} events`
+}
+
+function ImportHistory(): React.JSX.Element {
+  const [runs, setRuns] = useState<ImportRun[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const refresh = useCallback(async (): Promise<void> => {
+    setRuns(await window.electron.listImportRuns())
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  async function runAction(id: string, action: () => Promise<string>): Promise<void> {
+    setBusyId(id)
+    try {
+      setStatus({ text: await action(), isError: false })
+    } catch (e: unknown) {
+      setStatus({ text: 'Error: ' + errorMessage(e), isError: true })
+    } finally {
+      await refresh()
+      setBusyId(null)
+    }
+  }
+
+  if (runs.length === 0) {
+    return (
+      <section className="subscription-screen card">
+        <div className="empty-state">No imports yet. Past imports show up here to revert.</div>
+      </section>
+    )
+  }
+
+  return (
+    <section className="subscription-screen card">
+      <div className="event-list">
+        {runs.map((run) => {
+          const groups = activeGroups(run)
+          const remaining = groups.reduce((sum, group) => sum + group.count, 0)
+
+          return (
+            <div key={run.id} className="subscription-item">
+              <div className="event-summary-row">
+                <div className="event-summary">{run.calendarName}</div>
+                <div className="event-repeat">{new Date(run.importedAt).toLocaleString()}</div>
+              </div>
+              {run.feed ? (
+                <div className="event-meta" title={run.feed}>
+                  {run.feed}
+                </div>
+              ) : null}
+              <div className="event-meta">{formatRunStatus(run, remaining)}</div>
+              {groups.length > 0 ? (
+                <div className="history-groups">
+                  {groups.map((group) => (
+                    <div key={group.key} className="history-group">
+                      <span className="history-group-label" title={group.label}>
+                        {group.label} ({group.count})
+                      </span>
+                      <button
+                        className="btn btn-quiet"
+                        disabled={busyId !== null}
+                        title={`Remove every imported "${group.label}" event from "${run.calendarName}"`}
+                        onClick={() =>
+                          runAction(`${run.id}|${group.key}`, async () => {
+                            const res = await window.electron.removeImportedGroup({
+                              calendarName: run.calendarName,
+                              container: run.container,
+                              sourceId: run.sourceId,
+                              groupKey: group.key
+                            })
+                            return `Removed ${res.deleted} "${group.label}" events from "${run.calendarName}".`
+                          })
+                        }
+                      >
+                        {busyId === `${run.id}|${group.key}` ? 'Removing...' : 'Remove group'}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+              <div className="subscription-actions">
+                <button
+                  className="btn btn-ghost"
+                  disabled={busyId !== null || remaining === 0}
+                  onClick={() =>
+                    runAction(run.id, async () => {
+                      const res = await window.electron.revertImportRun({ id: run.id })
+                      return `Reverted. Deleted ${res.deleted} events from "${run.calendarName}".`
+                    })
+                  }
+                >
+                  {busyId === run.id ? 'Reverting...' : 'Revert import'}
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+      {status ? (
+        <div className={status.isError ? 'status-line status-error' : 'status-line status-info'}>
+          {status.text}
+        </div>
+      ) : null}
+    </section>
+  )
+}
+
+export default ImportHistory
@@ -0,0 +1,219 @@
+type RewriteRule = Parameters<Window['electron']['prepareEvents']>[0]['rewrites'][number]
+type ParsedIcsEvent = Parameters<Window['electron']['prepareEvents']>[0]['events'][number]
+
+export type RewriteSample = { before: ParsedIcsEvent; after: ParsedIcsEvent }
+
+const ruleKinds: { kind: RewriteRule['kind']; label: string }[] = [
+  { kind: 'replaceTitle', label: 'Replace in title' },
+  { kind: 'prefixTitle', label: 'Prefix title' },
+  { kind: 'setLocation', label: 'Set location' },
+  { kind: 'htmlToText', label: 'HTML to plain text' },
+  { kind: 'appendSourceUrl', label: 'Append feed URL' }
+]
+
+function defaultRule(id: string, kind: RewriteRule['kind']): RewriteRule {
+  switch (kind) {
+    case 'replaceTitle':
+      return { id, kind, pattern: '', replacement: '' }
+    case 'prefixTitle':
+      return { id, kind, groupKey: null, prefix: '' }
+    case 'setLocation':
+      return { id, kind, groupKey: null, location: '' }
+    case 'htmlToText':
+    case 'appendSourceUrl':
+      return { id, kind }
+  }
+}
+
+function GroupSelect(props: {
+  value: string | null
+  groups: { key: string; label: string }[]
+  disabled: boolean
+  onChange: (groupKey: string | null) => void
+}): React.JSX.Element {
+  const { value, groups, disabled, onChange } = props
+  // Keys from another grouping strategy stay selectable so the rule is not silently reset
+  const isMissing = value !== null && !groups.some((group) => group.key === value)
+
+  return (
+    <select
+      value={value ?? ''}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value === '' ? null : e.target.value)}
+    >
+      <option value="">All groups</option>
+      {isMissing ? <option value={value}>{value} (not in this feed)</option> : null}
+      {groups.map((group) => (
+        <option key={group.key} value={group.key}>
+          {group.label}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+function RuleFields(props: {
+  rule: RewriteRule
+  groups: { key: string; label: string }[]
+  disabled: boolean
+  onChange: (rule: RewriteRule) => void
+}): React.JSX.Element {
+  const { rule, groups, disabled, onChange } = props
+
+  switch (rule.kind) {
+    case 'replaceTitle':
+      return (
+        <>
+          <input
+            className="filter-rule-text"
+            placeholder="Pattern"
+            disabled={disabled}
+            value={rule.pattern}
+            onChange={(e) => onChange({ ...rule, pattern: e.target.value })}
+          />
+          <input
+            className="filter-rule-text"
+            placeholder="Replace with"
+            disabled={disabled}
+            value={rule.replacement}
+            onChange={(e) => onChange({ ...rule, replacement: e.target.value })}
+          />
+        </>
+      )
+    case 'prefixTitle':
+      return (
+        <>
+          <GroupSelect
+            value={rule.groupKey}
+            groups={groups}
+            disabled={disabled}
+            onChange={(groupKey) => onChange({ ...rule, groupKey })}
+          />
+          <input
+            className="filter-rule-text"
+            placeholder="Prefix or emoji"
+            disabled={disabled}
+            value={rule.prefix}
+            onChange={(e) => onChange({ ...rule, prefix: e.target.value })}
+          />
+        </>
+      )
+    case 'setLocation':
+      return (
+        <>
+          <GroupSelect
+            value={rule.groupKey}
+            groups={groups}
+            disabled={disabled}
+            onChange={(groupKey) => onChange({ ...rule, groupKey })}
+          />
+          <input
+            className="filter-rule-text"
+            placeholder="Location"
+            disabled={disabled}
+            value={rule.location}
+            onChange={(e) => onChange({ ...rule, location: e.target.value })}
+          />
+        </>
+      )
+    case 'htmlToText':
+      return <span className="subtle">in descriptions</span>
+    case 'appendSourceUrl':
+      return <span className="subtle">to descriptions</span>
+  }
+}
+
+function SampleField(props: { label: string; before: string; after: string }): React.JSX.Element {
+  const { label, before, after } = props
+  return (
+    <div className="rewrite-sample-field">
+      <span className="rewrite-sample-label">{label}</span>
+      <span className="rewrite-before">{before || '(empty)'}</span>
+      <span className="rewrite-after">{after || '(empty)'}</span>
+    </div>
+  )
+}
+
+function RewriteRulesEditor(props: {
+  rules: RewriteRule[]
+  groups: { key: string; label: string }[]
+  samples: RewriteSample[]
+  error: string | null
+  disabled: boolean
+  onChange: (rules: RewriteRule[]) => void
+}): React.JSX.Element {
+  const { rules, groups, samples, error, disabled, onChange } = props
+
+  function updateRule(next: RewriteRule): void {
+    onChange(rules.map((rule) => (rule.id === next.id ? next : rule)))
+  }
+
+  return (
+    <details className="filter-rules">
+      <summary>Rewrite rules ({rules.length})</summary>
+      <div className="filter-rule-list">
+        {rules.map((rule) => (
+          <div key={rule.id} className="filter-rule">
+            <select
+              value={rule.kind}
+              disabled={disabled}
+              onChange={(e) =>
+                updateRule(defaultRule(rule.id, e.target.value as RewriteRule['kind']))
+              }
+            >
+              {ruleKinds.map((option) => (
+                <option key={option.kind} value={option.kind}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <RuleFields rule={rule} groups={groups} disabled={disabled} onChange={updateRule} />
+            <button
+              className="btn btn-quiet"
+              disabled={disabled}
+              aria-label="Remove rule"
+              onClick={() => onChange(rules.filter((item) => item.id !== rule.id))}
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+        <div className="filter-rule-footer">
+          <button
+            className="btn btn-ghost"
+            disabled={disabled}
+            onClick={() => onChange([...rules, defaultRule(crypto.randomUUID(), 'replaceTitle')])}
+          >
+            Add rule
+          </button>
+        </div>
+        {error ? <div className="status-line status-error">{error}</div> : null}
+        {samples.length > 0 ? (
+          <div className="rewrite-samples">
+            {samples.map(({ before, after }, index) => (
+              <div key={index} className="rewrite-sample">
+                {before.summary !== after.summary ? (
+                  <SampleField label="Title" before={before.summary} after={after.summary} />
+                ) : (
+                  <div className="rewrite-sample-title">{after.summary}</div>
+                )}
+                {before.location !== after.location ? (
+                  <SampleField label="Location" before={before.location} after={after.location} />
+                ) : null}
+                {before.description !== after.description ? (
+                  <SampleField
+                    label="Notes"
+                    before={before.description}
+                    after={after.description}
+                  />
+                ) : null}
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </div>
+    </details>
+  )
+}
+
+export default RewriteRulesEditor
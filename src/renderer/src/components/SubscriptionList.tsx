@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from 'react'
+import { errorMessage } from '../../../shared/ipc'
+
+type FeedSubscription = Awaited<ReturnType<Window['electron']['listSubscriptions']>>[number]
+
+function formatInterval(minutes: number): string {
+  if (minutes % 1440 === 0) return minutes === 1440 ? 'daily' : `every ${minutes / 1440} days`
+  if (minutes % 60 === 0) return minutes === 60 ? 'hourly' : `every ${minutes / 60} hours`
+  return `every ${minutes} minutes`
+}
+
+function formatLastSync(subscription: FeedSubscription): string {
+  if (subscription.lastError) return `Last sync failed: ${subscription.lastError}`
+  if (subscription.lastSyncedAt === null) return 'Not synced yet'
+  return `Last synced ${new Date(subscription.lastSyncedAt).toLocaleString()}`
+}
+
+function SubscriptionList(): React.JSX.Element {
+  const [subscriptions, setSubscriptions] = useState<FeedSubscription[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null)
+
+  const refresh = useCallback(async (): Promise<void> => {
+    setSubscriptions(await window.electron.listSubscriptions())
+  }, [])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  async function runAction(id: string, action: () => Promise<string | void>): Promise<void> {
+    setBusyId(id)
+    try {
+      const text = await action()
+      setStatus(text ? { text, isError: false } : null)
+    } catch (e: unknown) {
+      setStatus({ text: 'Error: ' + errorMessage(e), isError: true })
+    } finally {
+      await refresh()
+      setBusyId(null)
+    }
+  }
+
+  if (subscriptions.length === 0) {
+    return (
+      <section className="subscription-screen card">
+        <div className="empty-state">
+          No subscriptions yet. Choose &ldquo;Keep in sync&rdquo; when reviewing a feed URL.
+        </div>
+      </section>
+    )
+  }
+
+  return (
+    <section className="subscription-screen card">
+      <div className="event-list">
+        {subscriptions.map((subscription) => (
+          <div key={subscription.id} className="subscription-item">
+            <div className="event-summary-row">
+              <div className="event-summary">{subscription.calendarName}</div>
+              <div className="event-repeat">
+                {subscription.paused ? '(paused)' : formatInterval(subscription.intervalMinutes)}
+              </div>
+            </div>
+            <div className="event-meta" title={subscription.url}>
+              {subscription.url}
+            </div>
+            <div className="event-meta">{formatLastSync(subscription)}</div>
+            <div className="subscription-actions">
+              <button
+                className="btn btn-ghost"
+                disabled={busyId !== null}
+                onClick={() =>
+                  runAction(subscription.id, async () => {
+                    const res = await window.electron.syncSubscriptionNow({ id: subscription.id })
+                    return (
+                      `Synced. Created ${res.created} new events in "${subscription.calendarName}".` +
+                      (res.removed > 0 ? ` Removed ${res.removed} cancelled events.` : '')
+                    )
+                  })
+                }
+              >
+                {busyId === subscription.id ? 'Working...' : 'Sync now'}
+              </button>
+              <button
+                className="btn btn-quiet"
+                disabled={busyId !== null}
+                onClick={() =>
+                  runAction(subscription.id, async () => {
+                    await window.electron.setSubscriptionPaused({
+                      id: subscription.id,
+                      paused: !subscription.paused
+                    })
+                  })
+                }
+              >
+                {subscription.paused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                className="btn btn-quiet"
+                disabled={busyId !== null}
+                onClick={() =>
+                  runAction(subscription.id, async () => {
+                    await window.electron.deleteSubscription({ id: subscription.id })
+                  })
+                }
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      {status ? (
+        <div className={status.isError ? 'status-line status-error' : 'status-line status-info'}>
+          {status.text}
+        </div>
+      ) : null}
+    </section>
+  )
+}
+
+export default SubscriptionList
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react'
+
+// `indeterminate` only exists as a DOM property, so it is set after render
+function TriStateCheckbox(props: {
+  checked: boolean
+  indeterminate: boolean
+  disabled?: boolean
+  onChange: () => void
+}): React.JSX.Element {
+  const { checked, indeterminate, disabled, onChange } = props
+  const ref = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = indeterminate
+  }, [indeterminate])
+
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      checked={checked}
+      disabled={disabled}
+      aria-checked={indeterminate ? 'mixed' : checked}
+      onChange={onChange}
+    />
+  )
+}
+
+export default TriStateCheckbox
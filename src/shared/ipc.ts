@@ -0,0 +1,495 @@
+import type { AlertDefaults, AlertSettings, EventAlarm } from '../main/alarms'
+import type { AppErrorCode, AppErrorDetail } from '../main/appErrors'
+import type { CaldavAccountSummary, getCaldavAccountSummary } from '../main/caldavAccount'
+import type { EventParticipant } from '../main/eventMetadata'
+import type {
+  FeedCredentialSummary,
+  FeedCredentials,
+  getFeedCredentialSummary
+} from '../main/feedCredentials'
+import type { FeedSettings } from '../main/feedSettings'
+import type { FilterCondition, FilterDecision, FilterRuleSet } from '../main/filterRules'
+import type { EventGroupAssignment, GroupingStrategy } from '../main/grouping'
+import type { writeIcsFile } from '../main/icsExport'
+import type { IcsSource } from '../main/icsSource'
+import type { ImportProgress } from '../main/importBatches'
+import type { listImportRuns } from '../main/importHistory'
+import type {
+  findExistingDuplicates,
+  importIcsToCalendar,
+  ParsedIcsEvent,
+  previewIcsEvents
+} from '../main/importIcs'
+import type { RecurrenceWindow } from '../main/recurrence'
+import type { RewriteRule } from '../main/rewriteRules'
+import type { removeImportedGroup, revertImportRun } from '../main/rollback'
+import type {
+  createSubscription,
+  deleteSubscription,
+  listSubscriptions,
+  setSubscriptionPaused,
+  syncSubscriptionNow
+} from '../main/subscriptions'
+import type { CalendarContainer, describeTargets, listCalendarSources } from '../main/targets'
+import type { CaldavLogin } from '../main/targets/caldavClient'
+import {
+  array,
+  boolean,
+  none,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  tagged,
+  tuple,
+  type IpcErrorCode,
+  type Validator
+} from './schema'
+
+export { IpcRequestError, type IpcErrorCode } from './schema'
+
+type Returned<F extends (...args: never[]) => unknown> = Awaited<ReturnType<F>>
+type RequestOf<F extends (...args: never[]) => unknown> = Parameters<F>[0]
+
+/**
+ * Every channel between the popup and the main process, by the name the
+ * preload bridge exposes it under. The main process implements each one with
+ * registerIpcHandlers, and the bridge is generated from IPC_CHANNELS.
+ */
+export type IpcContract = {
+  previewCalendar: {
+    request: RequestOf<typeof previewIcsEvents>
+    response: Returned<typeof previewIcsEvents>
+  }
+  findExistingDuplicates: {
+    request: RequestOf<typeof findExistingDuplicates>
+    response: Returned<typeof findExistingDuplicates>
+  }
+  listCalendarTargets: { request: void; response: ReturnType<typeof describeTargets> }
+  listCalendarSources: { request: void; response: Returned<typeof listCalendarSources> }
+  chooseIcsFile: { request: void; response: string | null }
+  // Progress arrives as importProgress events while the import runs
+  importCalendar: {
+    request: Omit<RequestOf<typeof importIcsToCalendar>, 'signal' | 'onProgress'>
+    response: Returned<typeof importIcsToCalendar>
+  }
+  // Stops the running import after its current batch; false when none is running
+  cancelImport: { request: void; response: boolean }
+  // Resolves to null when the save dialog is cancelled
+  exportCalendar: {
+    request: { calendarName: string; events: ParsedIcsEvent[] }
+    response: Returned<typeof writeIcsFile> | null
+  }
+  evaluateFilters: {
+    request: { events: ParsedIcsEvent[]; filters: FilterRuleSet }
+    response: FilterDecision[]
+  }
+  assignGroups: {
+    request: { events: ParsedIcsEvent[]; grouping: GroupingStrategy }
+    response: EventGroupAssignment[]
+  }
+  defaultStripPatterns: { request: void; response: string[] }
+  prepareEvents: {
+    request: {
+      events: ParsedIcsEvent[]
+      rewrites: RewriteRule[]
+      alerts: AlertSettings
+      grouping: GroupingStrategy
+    }
+    response: ParsedIcsEvent[]
+  }
+  saveFeedSettings: {
+    request: { feed: string; settings: Partial<FeedSettings> }
+    response: FeedSettings
+  }
+  getFeedCredentials: {
+    request: { url: string }
+    response: Returned<typeof getFeedCredentialSummary>
+  }
+  saveFeedCredentials: {
+    request: { url: string; credentials: FeedCredentials }
+    response: FeedCredentialSummary | null
+  }
+  getCaldavAccount: { request: void; response: Returned<typeof getCaldavAccountSummary> }
+  saveCaldavAccount: {
+    request: { login: CaldavLogin | null }
+    response: CaldavAccountSummary | null
+  }
+  listSubscriptions: { request: void; response: ReturnType<typeof listSubscriptions> }
+  createSubscription: {
+    request: RequestOf<typeof createSubscription>
+    response: Returned<typeof createSubscription>
+  }
+  setSubscriptionPaused: {
+    request: RequestOf<typeof setSubscriptionPaused>
+    response: Returned<typeof setSubscriptionPaused>
+  }
+  deleteSubscription: {
+    request: RequestOf<typeof deleteSubscription>
+    response: Returned<typeof deleteSubscription>
+  }
+  syncSubscriptionNow: {
+    request: RequestOf<typeof syncSubscriptionNow>
+    response: Returned<typeof syncSubscriptionNow>
+  }
+  listImportRuns: { request: void; response: Returned<typeof listImportRuns> }
+  revertImportRun: {
+    request: RequestOf<typeof revertImportRun>
+    response: Returned<typeof revertImportRun>
+  }
+  removeImportedGroup: {
+    request: RequestOf<typeof removeImportedGroup>
+    response: Returned<typeof removeImportedGroup>
+  }
+}
+
+// Messages the main process pushes to the popup, by event name
+export type IpcEvents = {
+  importProgress: ImportProgress
+}
+
+export type IpcMethod = keyof IpcContract
+export type IpcEvent = keyof IpcEvents
+export type IpcRequest<M extends IpcMethod> = IpcContract[M]['request']
+export type IpcResponse<M extends IpcMethod> = IpcContract[M]['response']
+
+// What a failed IPC call rejects with in the renderer
+export type IpcErrorInfo = {
+  // A rejected request, or the AppErrorCode of a failure the app can explain
+  code: IpcErrorCode | AppErrorCode
+  message: string
+  // Where in the request the problem is, for rejected requests
+  path: string | null
+  detail: AppErrorDetail | null
+  // What the user can do about it, shown under the message
+  fix: string | null
+}
+
+// What travels back over the channel; the bridge unwraps it
+export type IpcResult<T> = { ok: true; value: T } | { ok: false; error: IpcErrorInfo }
+
+export type IpcApi = {
+  [M in IpcMethod]: [IpcRequest<M>] extends [void]
+    ? () => Promise<IpcResponse<M>>
+    : (request: IpcRequest<M>) => Promise<IpcResponse<M>>
+}
+
+// onImportProgress(listener) and so on; each returns a function that unsubscribes
+export type IpcEventApi = {
+  [E in IpcEvent as `on${Capitalize<E>}`]: (listener: (payload: IpcEvents[E]) => void) => () => void
+}
+
+// window.electron in the popup
+export type ElectronApi = IpcApi &
+  IpcEventApi & {
+    process: { versions: NodeJS.ProcessVersions }
+    // File.path is gone in current Electron; dropped files resolve their path here
+    pathForFile(file: File): string
+  }
+
+// Limits on what the popup may send, well above anything a real review produces
+const MAX_EVENTS = 50_000
+const MAX_LIST = 1_000
+const MAX_TEXT = 10_000
+const MAX_DESCRIPTION = 1_000_000
+// Matches the feed download limit
+const MAX_CALENDAR_TEXT = 20 * 1024 * 1024
+const MAX_SOURCES = 20
+const MAX_URL = 2048
+const MAX_PATH = 4096
+// A merged feed names every source on a line of its own, the longest being a file:// path
+const MAX_FEED = 'merged:'.length + MAX_SOURCES * ('file://'.length + MAX_PATH + 1)
+
+const text = string({ maxLength: MAX_TEXT })
+const id = string({ maxLength: 200, minLength: 1 })
+const integer = number({ integer: true })
+const calendarName = string({
+  maxLength: 255,
+  minLength: 1,
+  test: (value) => [...value].every((c) => c.charCodeAt(0) > 0x1f && c.charCodeAt(0) !== 0x7f),
+  expected: 'a calendar name without control characters'
+})
+const feedUrl = string({
+  maxLength: MAX_URL,
+  pattern: /^\s*(https?|webcal):\/\/\S+\s*$/i,
+  expected: 'an http, https or webcal link'
+})
+const absolutePath = string({
+  maxLength: MAX_PATH,
+  pattern: /^(\/|[a-z]:[\\/]|\\\\)/i,
+  expected: 'an absolute file path'
+})
+const feed = string({ maxLength: MAX_FEED })
+const colorHex = string({ maxLength: 7, pattern: /^#[0-9a-f]{6}$/i, expected: 'a #RRGGBB color' })
+const container: Validator<CalendarContainer> = oneOf('local', 'icloud', 'caldav', 'memory')
+const sourceId = nullable(text)
+const ymd = nullable(tuple<[number, number, number]>(integer, integer, integer))
+const wallTime = tuple<[number, number, number, number, number, number]>(
+  integer,
+  integer,
+  integer,
+  integer,
+  integer,
+  integer
+)
+
+const participant: Validator<EventParticipant> = object({
+  name: nullable(text),
+  email: nullable(text),
+  status: nullable(text)
+})
+
+const alarm: Validator<EventAlarm> = tagged({
+  relative: { minutes: integer, related: oneOf('start', 'end') },
+  absolute: { atMs: number() }
+})
+
+const parsedIcsEvent: Validator<ParsedIcsEvent> = object({
+  summary: text,
+  description: string({ maxLength: MAX_DESCRIPTION }),
+  location: text,
+  isAllDay: boolean,
+  startMs: number(),
+  endMs: number(),
+  startYMD: ymd,
+  endYMD: ymd,
+  timeKind: oneOf('utc', 'zoned', 'floating'),
+  tzid: nullable(text),
+  timeZone: nullable(text),
+  startWall: wallTime,
+  endWall: wallTime,
+  uid: nullable(text),
+  recurrenceId: nullable(text),
+  categories: array(text, MAX_LIST),
+  alarms: array(alarm, MAX_LIST),
+  url: nullable(text),
+  status: nullable(oneOf('confirmed', 'tentative', 'cancelled')),
+  organizer: nullable(participant),
+  attendees: array(participant, MAX_LIST),
+  transparency: oneOf('opaque', 'transparent'),
+  sequence: integer,
+  lastModifiedMs: nullable(number()),
+  feed
+})
+
+const events = array(parsedIcsEvent, MAX_EVENTS)
+
+const icsSource: Validator<IcsSource> = tagged({
+  url: { url: feedUrl },
+  file: { path: absolutePath },
+  text: { text: string({ maxLength: MAX_CALENDAR_TEXT }) }
+})
+
+const textField = oneOf(
+  'summary',
+  'location',
+  'description',
+  'categories',
+  'organizer',
+  'attendees',
+  'url'
+)
+
+const filterCondition: Validator<FilterCondition> = tagged({
+  keyword: { field: textField, value: text },
+  regex: { field: textField, pattern: text },
+  dateRange: { from: nullable(text), to: nullable(text) },
+  weekdays: { days: array(number({ integer: true, min: 0, max: 6 }), 7) },
+  timeOfDay: { from: text, to: text },
+  duration: { minMinutes: nullable(number()), maxMinutes: nullable(number()) },
+  allDay: { allDay: boolean },
+  status: { statuses: array(oneOf('confirmed', 'tentative', 'cancelled'), 3) },
+  availability: { transparent: boolean }
+})
+
+const filterRuleSet: Validator<FilterRuleSet> = object({
+  fallback: oneOf('include', 'exclude'),
+  rules: array(
+    object({ id, action: oneOf('include', 'exclude'), condition: filterCondition }),
+    MAX_LIST
+  )
+})
+
+const grouping: Validator<GroupingStrategy> = tagged({
+  title: {},
+  normalizedTitle: { stripPatterns: array(text, MAX_LIST) },
+  series: {},
+  location: {},
+  category: {},
+  organizer: {}
+})
+
+const rewriteRule: Validator<RewriteRule> = tagged({
+  replaceTitle: { id, pattern: text, replacement: text },
+  prefixTitle: { id, groupKey: nullable(text), prefix: text },
+  setLocation: { id, groupKey: nullable(text), location: text },
+  htmlToText: { id },
+  appendSourceUrl: { id }
+})
+
+const alertDefaults: Validator<AlertDefaults> = object({
+  timedOffsetMinutes: nullable(integer),
+  allDayOffsetMinutes: nullable(integer)
+})
+
+const alertSettings: Validator<AlertSettings> = object({
+  keepSourceAlarms: boolean,
+  defaults: alertDefaults,
+  groups: record(text, alertDefaults, MAX_EVENTS)
+})
+
+const headerValue = string({ maxLength: 8192 })
+
+const feedCredentials: Validator<FeedCredentials> = object({
+  auth: tagged({
+    none: {},
+    basic: { username: string({ maxLength: 1024 }), password: headerValue },
+    bearer: { token: headerValue }
+  }),
+  headers: record(string({ maxLength: 256, minLength: 1 }), headerValue, 100)
+})
+
+const caldavLogin: Validator<CaldavLogin> = object({
+  serverUrl: string({
+    maxLength: 2048,
+    pattern: /^\s*https?:\/\/\S+\s*$/i,
+    expected: 'an http or https link'
+  }),
+  username: string({ maxLength: 1024, minLength: 1 }),
+  password: headerValue
+})
+
+const recurrenceWindow: Validator<RecurrenceWindow> = object({ startMs: number(), endMs: number() })
+
+type ChannelSpec<M extends IpcMethod> = {
+  channel: string
+  request: Validator<IpcRequest<M>>
+}
+
+export const IPC_CHANNELS: { [M in IpcMethod]: ChannelSpec<M> } = {
+  previewCalendar: {
+    channel: 'calendar:previewIcs',
+    request: object({ sources: array(icsSource, MAX_SOURCES), window: optional(recurrenceWindow) })
+  },
+  findExistingDuplicates: {
+    channel: 'calendar:findDuplicates',
+    request: object({
+      targetCalendarName: calendarName,
+      container,
+      sourceId: optional(sourceId),
+      events
+    })
+  },
+  listCalendarTargets: { channel: 'calendar:listTargets', request: none },
+  listCalendarSources: { channel: 'calendar:listSources', request: none },
+  chooseIcsFile: { channel: 'calendar:chooseIcsFile', request: none },
+  importCalendar: {
+    channel: 'calendar:importIcs',
+    request: object({
+      targetCalendarName: calendarName,
+      container,
+      sourceId: optional(sourceId),
+      events,
+      calendarColorHex: colorHex,
+      feed: optional(feed),
+      existing: optional(oneOf('skip', 'update', 'replace')),
+      cancelled: optional(oneOf('remove', 'mark')),
+      cancelledEvents: optional(events),
+      duplicates: optional(oneOf('skip', 'import'))
+    })
+  },
+  cancelImport: { channel: 'calendar:cancelImport', request: none },
+  exportCalendar: {
+    channel: 'calendar:exportIcs',
+    request: object({ calendarName: text, events })
+  },
+  evaluateFilters: {
+    channel: 'filters:evaluate',
+    request: object({ events, filters: filterRuleSet })
+  },
+  assignGroups: { channel: 'grouping:assign', request: object({ events, grouping }) },
+  defaultStripPatterns: { channel: 'grouping:stripPatterns', request: none },
+  prepareEvents: {
+    channel: 'events:prepare',
+    request: object({
+      events,
+      rewrites: array(rewriteRule, MAX_LIST),
+      alerts: alertSettings,
+      grouping
+    })
+  },
+  saveFeedSettings: {
+    channel: 'feeds:saveSettings',
+    request: object({
+      feed,
+      settings: object({
+        filters: optional(filterRuleSet),
+        grouping: optional(grouping),
+        rewrites: optional(array(rewriteRule, MAX_LIST)),
+        alerts: optional(alertSettings)
+      })
+    })
+  },
+  getFeedCredentials: { channel: 'feeds:getCredentials', request: object({ url: feedUrl }) },
+  saveFeedCredentials: {
+    channel: 'feeds:saveCredentials',
+    request: object({ url: feedUrl, credentials: feedCredentials })
+  },
+  getCaldavAccount: { channel: 'caldav:getAccount', request: none },
+  saveCaldavAccount: {
+    channel: 'caldav:saveAccount',
+    request: object({ login: nullable(caldavLogin) })
+  },
+  listSubscriptions: { channel: 'subscriptions:list', request: none },
+  createSubscription: {
+    channel: 'subscriptions:create',
+    request: object({
+      url: feedUrl,
+      calendarName,
+      container,
+      sourceId,
+      calendarColorHex: colorHex,
+      grouping,
+      selectedGroups: record(text, boolean, MAX_EVENTS),
+      cancelled: oneOf('remove', 'mark'),
+      intervalMinutes: number({ integer: true, min: 1 }),
+      importedEvents: events
+    })
+  },
+  setSubscriptionPaused: {
+    channel: 'subscriptions:setPaused',
+    request: object({ id, paused: boolean })
+  },
+  deleteSubscription: { channel: 'subscriptions:delete', request: object({ id }) },
+  syncSubscriptionNow: { channel: 'subscriptions:syncNow', request: object({ id }) },
+  listImportRuns: { channel: 'history:list', request: none },
+  revertImportRun: { channel: 'history:revert', request: object({ id }) },
+  removeImportedGroup: {
+    channel: 'history:removeGroup',
+    request: object({ calendarName, container, sourceId, groupKey: text })
+  }
+}
+
+export const IPC_EVENTS: { [E in IpcEvent]: string } = {
+  importProgress: 'calendar:importProgress'
+}
+
+// Bridge calls reject with the IpcErrorInfo the main process sent, not an Error
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String(error.message)
+  }
+  return String(error)
+}
+
+// The suggested fix a failed bridge call came with, if any
+export function errorFix(error: unknown): string | null {
+  if (typeof error === 'object' && error !== null && 'fix' in error) {
+    return typeof error.fix === 'string' ? error.fix : null
+  }
+  return null
+}
@@ -0,0 +1,155 @@
+// Runtime checks for values that arrive over IPC. A validator returns a checked
+// copy that keeps only the fields it knows, or throws an IpcRequestError naming
+// the offending path, e.g. "request.events[3].startMs".
+export type Validator<T> = (value: unknown, path: string) => T
+
+type Output<V> = V extends Validator<infer T> ? T : never
+
+type Shape = Record<string, Validator<unknown>>
+
+export type IpcErrorCode = 'invalidRequest' | 'tooLarge' | 'failed'
+
+export class IpcRequestError extends Error {
+  readonly code: IpcErrorCode
+  readonly path: string
+
+  constructor(code: IpcErrorCode, path: string, message: string) {
+    super(message)
+    this.name = 'IpcRequestError'
+    this.code = code
+    this.path = path
+  }
+}
+
+function invalid(path: string, expected: string): never {
+  throw new IpcRequestError('invalidRequest', path, `${path} must be ${expected}.`)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function string(opts: {
+  maxLength: number
+  minLength?: number
+  pattern?: RegExp
+  // For rules a pattern would state less plainly
+  test?: (value: string) => boolean
+  // Said in the error when the pattern or test does not match
+  expected?: string
+}): Validator<string> {
+  return (value, path) => {
+    if (typeof value !== 'string') invalid(path, 'a string')
+    if (value.length > opts.maxLength) {
+      throw new IpcRequestError(
+        'tooLarge',
+        path,
+        `${path} is longer than ${opts.maxLength} characters.`
+      )
+    }
+    if (value.length < (opts.minLength ?? 0)) invalid(path, 'filled in')
+    if (opts.pattern && !opts.pattern.test(value)) invalid(path, opts.expected ?? 'well formed')
+    if (opts.test && !opts.test(value)) invalid(path, opts.expected ?? 'well formed')
+    return value
+  }
+}
+
+export function number(
+  opts: { integer?: boolean; min?: number; max?: number } = {}
+): Validator<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) invalid(path, 'a finite number')
+    if (opts.integer && !Number.isInteger(value)) invalid(path, 'a whole number')
+    if (opts.min !== undefined && value < opts.min) invalid(path, `at least ${opts.min}`)
+    if (opts.max !== undefined && value > opts.max) invalid(path, `at most ${opts.max}`)
+    return value
+  }
+}
+
+export const boolean: Validator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : invalid(path, 'true or false')
+
+// For channels that take no request
+export const none: Validator<void> = (value, path) => {
+  if (value !== undefined && value !== null) invalid(path, 'empty')
+}
+
+export function oneOf<T extends string>(...values: T[]): Validator<T> {
+  return (value, path) =>
+    (values as unknown[]).includes(value)
+      ? (value as T)
+      : invalid(path, `one of ${values.join(', ')}`)
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  return (value, path) => (value === null ? null : validator(value, path))
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : validator(value, path))
+}
+
+export function array<T>(item: Validator<T>, maxItems: number): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) invalid(path, 'a list')
+    if (value.length > maxItems) {
+      throw new IpcRequestError('tooLarge', path, `${path} has more than ${maxItems} entries.`)
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`))
+  }
+}
+
+export function tuple<T extends unknown[]>(
+  ...items: { [K in keyof T]: Validator<T[K]> }
+): Validator<T> {
+  return (value, path) => {
+    if (!Array.isArray(value) || value.length !== items.length) {
+      invalid(path, `a list of ${items.length} values`)
+    }
+    return items.map((item, index) => item(value[index], `${path}[${index}]`)) as T
+  }
+}
+
+export function record<T>(
+  key: Validator<string>,
+  entry: Validator<T>,
+  maxKeys: number
+): Validator<Record<string, T>> {
+  return (value, path) => {
+    if (!isRecord(value)) invalid(path, 'an object')
+    const entries = Object.entries(value)
+    if (entries.length > maxKeys) {
+      throw new IpcRequestError('tooLarge', path, `${path} has more than ${maxKeys} entries.`)
+    }
+    return Object.fromEntries(
+      entries.map(([name, item]) => [key(name, `${path} key`), entry(item, `${path}.${name}`)])
+    )
+  }
+}
+
+export function object<S extends Shape>(shape: S): Validator<{ [K in keyof S]: Output<S[K]> }> {
+  return (value, path) => {
+    if (!isRecord(value)) invalid(path, 'an object')
+    const checked: Record<string, unknown> = {}
+    for (const [name, field] of Object.entries(shape)) {
+      const result = field(value[name], `${path}.${name}`)
+      if (result !== undefined) checked[name] = result
+    }
+    return checked as { [K in keyof S]: Output<S[K]> }
+  }
+}
+
+// A union told apart by its `kind` field, one shape per kind
+export function tagged<V extends Record<string, Shape>>(
+  variants: V
+): Validator<{ [K in keyof V]: { kind: K } & { [F in keyof V[K]]: Output<V[K][F]> } }[keyof V]> {
+  const kinds = Object.keys(variants)
+  return (value, path) => {
+    if (!isRecord(value)) invalid(path, 'an object')
+    const kind = value.kind
+    if (typeof kind !== 'string' || !kinds.includes(kind)) {
+      invalid(`${path}.kind`, `one of ${kinds.join(', ')}`)
+    }
+    return { kind, ...object(variants[kind])(value, path) } as never
+  }
+}